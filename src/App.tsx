@@ -1,8 +1,25 @@
 import { useState, useEffect, useMemo } from 'react'
 import { useTranslation } from 'react-i18next'
-import { Book } from './services/bookstackApi'
-import SpringBootApi from './services/springBootApi'
+import { Book, Shelf } from './services/bookstackApi'
+import SpringBootApi, { AssetSyncOptions, AuditItem, ConflictResolution, DestinationSnapshot, NewAuditEntry, SnapshotReason, SnapshotRestoreItem, SyncBookOptions, SyncConflict, SyncJob, SyncMode, SyncProfile, SyncReport, SyncSelection, UnresolvedReference } from './services/springBootApi'
 import { ConfigForm, CONFIG_UPDATED_EVENT } from './components/ConfigForm'
+import { BookContentPicker } from './components/BookContentPicker'
+import { DestinationSyncPlan, SyncPreviewModal } from './components/SyncPreviewModal'
+import { ConflictResolverModal } from './components/ConflictResolverModal'
+import { SchedulesPanel } from './components/SchedulesPanel'
+import { HistoryPanel } from './components/HistoryPanel'
+import { SnapshotsPanel } from './components/SnapshotsPanel'
+import { ShelvesPanel } from './components/ShelvesPanel'
+import { SyncHistory } from './components/SyncHistory'
+import { VaultUnlockModal } from './components/VaultUnlockModal'
+import { DestinationIndex, buildDestinationIndex, findDestinationBook, isDestinationCopyStale } from './services/syncMapping'
+import { BatchController, runWithConcurrency } from './services/workerPool'
+import { PRIMARY_DESTINATION_ID, SyncDestination, getDestinations } from './services/destinations'
+import { isVaultEnabled, isVaultUnlocked } from './services/credentialVault'
+import { AuthUser, hasRole } from './services/authApi'
+import { getJobReport, getSyncReports, saveSyncReport } from './services/syncReportStore'
+import { TagFacet, TagRules, countTagFacets, formatTagExpression, hasTag, isSyncAllowed, normalizeTagRules } from './services/tagRules'
+import { SyncBatch, SyncBatchOptions, clearSyncBatch, finishSyncBatch, getLastSyncBatch, getUnfinishedBookIds, startSyncBatch, updateSyncBatchItem } from './services/syncBatchStore'
 import './i18n/i18n' // Import i18n configuration
 import './App.css'
 
@@ -21,6 +38,36 @@ type SortOption = 'name' | 'created_at' | 'updated_at';
 // Type for sort direction
 type SortDirection = 'asc' | 'desc';
 
+// Message of a caught error, kept with failed items in the audit log
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Keep the report of a finished job as history of its book on the active profile's source
+async function keepSyncReport(job: SyncJob): Promise<void> {
+  const profile = await springBootApi.getActiveProfile();
+  if (profile.config) {
+    saveSyncReport(profile.config.sourceBaseUrl, getJobReport(job));
+  }
+}
+
+// Turn a sync job update into the text shown in syncProgress
+function formatJobProgress(job: SyncJob): string {
+  switch (job.status) {
+    case 'queued':
+      return 'Queued';
+    case 'running':
+      if (job.pagesTotal === 0) return 'Syncing...';
+      return `Syncing ${Math.floor(job.pagesDone / job.pagesTotal * 100)}% (${job.pagesDone}/${job.pagesTotal} pages)`;
+    case 'completed':
+      return 'Completed';
+    case 'cancelled':
+      return 'Cancelled';
+    default:
+      return 'Failed';
+  }
+}
+
 // Language switcher component
 function LanguageSwitcher() {
   const { i18n } = useTranslation();
@@ -52,12 +99,121 @@ function LanguageSwitcher() {
   );
 }
 
-// Modal component for displaying book descriptions
+// Switcher between the named source/destination profiles; only admins may add, rename or delete them
+function ProfileSwitcher({ canEdit }: { canEdit: boolean }) {
+  const { t } = useTranslation();
+  const [profiles, setProfiles] = useState<SyncProfile[]>([]);
+  const [activeId, setActiveId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProfiles = async () => {
+    try {
+      setProfiles(await springBootApi.listProfiles());
+      setActiveId((await springBootApi.getActiveProfile()).id);
+    } catch (err) {
+      console.error('Error loading profiles:', err);
+      setError(errorMessage(err));
+    }
+  };
+
+  // Run a profile change; on failure show why and reload, so the switcher matches the stored profiles again
+  const runProfileAction = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error('Error changing profiles:', err);
+      await loadProfiles();
+      setError(errorMessage(err));
+    }
+  };
+
+  useEffect(() => {
+    loadProfiles();
+    
+    window.addEventListener(CONFIG_UPDATED_EVENT, loadProfiles);
+    return () => {
+      window.removeEventListener(CONFIG_UPDATED_EVENT, loadProfiles);
+    };
+  }, []);
+
+  // Every change of the active pair goes through the event so the book lists reload
+  const notifyProfileChange = () => {
+    window.dispatchEvent(new CustomEvent(CONFIG_UPDATED_EVENT));
+  };
+
+  const switchProfile = (profileId: string) => runProfileAction(async () => {
+    await springBootApi.setActiveProfile(profileId);
+    notifyProfileChange();
+  });
+
+  const createProfile = () => runProfileAction(async () => {
+    const name = window.prompt(t('profiles.newProfilePrompt'));
+    if (!name?.trim()) return;
+    
+    await springBootApi.createProfile(name.trim());
+    notifyProfileChange();
+  });
+
+  const renameProfile = () => runProfileAction(async () => {
+    const active = profiles.find(profile => profile.id === activeId);
+    const name = window.prompt(t('profiles.renamePrompt'), active?.name);
+    if (!name?.trim()) return;
+    
+    await springBootApi.renameProfile(activeId, name.trim());
+    await loadProfiles();
+  });
+
+  const deleteProfile = () => runProfileAction(async () => {
+    const active = profiles.find(profile => profile.id === activeId);
+    if (!window.confirm(t('profiles.confirmDelete', { name: active?.name }))) return;
+    
+    await springBootApi.deleteProfile(activeId);
+    notifyProfileChange();
+  });
+
+  return (
+    <div className="flex items-center space-x-2">
+      <label className="text-sm text-gray-500">{t('profiles.profile')}</label>
+      <select
+        value={activeId}
+        onChange={(e) => switchProfile(e.target.value)}
+        className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+      >
+        {profiles.map(profile => (
+          <option key={profile.id} value={profile.id}>{profile.name}</option>
+        ))}
+      </select>
+      {canEdit && (
+        <>
+          <button onClick={createProfile} className="px-2 py-1 text-sm text-blue-600 hover:text-blue-800">
+            {t('profiles.new')}
+          </button>
+          <button onClick={renameProfile} className="px-2 py-1 text-sm text-gray-600 hover:text-gray-800">
+            {t('profiles.rename')}
+          </button>
+          {profiles.length > 1 && (
+            <button onClick={deleteProfile} className="px-2 py-1 text-sm text-red-600 hover:text-red-800">
+              {t('buttons.delete')}
+            </button>
+          )}
+        </>
+      )}
+      {error && (
+        <span className="text-sm text-red-600" role="alert">{error}</span>
+      )}
+    </div>
+  );
+}
+
+// Modal component for displaying book descriptions, and the sync history of source books
 function DescriptionModal({ 
   book, 
+  reports,
   onClose 
 }: { 
   book: Book | null, 
+  reports?: SyncReport[],
   onClose: () => void 
 }) {
   const { t } = useTranslation();
@@ -97,6 +253,12 @@ function DescriptionModal({
         </div>
         <div className="p-4 overflow-y-auto">
           <p className="text-gray-700 whitespace-normal break-words text-left">{book.description}</p>
+          {reports && (
+            <div className="mt-4">
+              <h4 className="font-semibold text-left mb-2">{t('syncHistory.title')}</h4>
+              <SyncHistory reports={reports} />
+            </div>
+          )}
         </div>
         <div className="p-4 border-t border-gray-200">
           <button 
@@ -227,12 +389,16 @@ function FilterControls({
   onSortChange,
   language,
   onLanguageChange,
+  tag,
+  onTagChange,
+  tagFacets,
   syncStatus,
   onSyncStatusChange,
   viewMode,
   onViewModeChange,
   totalBooks,
   inDestinationCount,
+  staleCount,
   syncingCount,
   notSyncedCount
 }: {
@@ -241,12 +407,16 @@ function FilterControls({
   onSortChange: (option: SortOption) => void,
   language: string,
   onLanguageChange: (language: string) => void,
+  tag: string,
+  onTagChange: (tag: string) => void,
+  tagFacets: TagFacet[],
   syncStatus: string,
   onSyncStatusChange: (status: string) => void,
   viewMode: ViewMode,
   onViewModeChange: (mode: ViewMode) => void,
   totalBooks: number,
   inDestinationCount?: number,
+  staleCount?: number,
   syncingCount?: number,
   notSyncedCount?: number
 }) {
@@ -270,6 +440,26 @@ function FilterControls({
           <option value="chinese">{t('filters.chinese')}</option>
         </select>
         
+        {/* Tag filter, with the number of books carrying each tag */}
+        {(tagFacets.length > 0 || tag !== '') && (
+          <select
+            value={tag}
+            onChange={(e) => onTagChange(e.target.value)}
+            className="bg-white border border-gray-300 text-gray-700 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 p-2 max-w-xs"
+          >
+            <option value="">{t('filters.allTags')}</option>
+            {tag !== '' && !tagFacets.some(facet => formatTagExpression(facet.name, facet.value) === tag) && (
+              <option value={tag}>{tag} (0)</option>
+            )}
+            {tagFacets.map(facet => {
+              const expression = formatTagExpression(facet.name, facet.value);
+              return (
+                <option key={expression} value={expression}>{expression} ({facet.count})</option>
+              );
+            })}
+          </select>
+        )}
+        
         {/* Sync status filter */}
         <select
           value={syncStatus}
@@ -280,6 +470,9 @@ function FilterControls({
           {inDestinationCount !== undefined && (
             <option value="in-destination">{t('filters.inDestination')} ({inDestinationCount})</option>
           )}
+          {staleCount !== undefined && (
+            <option value="stale">{t('filters.stale')} ({staleCount})</option>
+          )}
           {syncingCount !== undefined && (
             <option value="syncing">{t('filters.currentlySyncing')} ({syncingCount})</option>
           )}
@@ -289,6 +482,9 @@ function FilterControls({
           {inDestinationCount === undefined && (
             <option value="in-destination">{t('filters.inDestination')}</option>
           )}
+          {staleCount === undefined && (
+            <option value="stale">{t('filters.stale')}</option>
+          )}
           {syncingCount === undefined && (
             <option value="syncing">{t('filters.currentlySyncing')}</option>
           )}
@@ -462,6 +658,37 @@ function PaginationControls({
   );
 }
 
+// Whether a book is in one destination, and how its sync there is going
+interface DestinationStatus {
+  id: string,
+  name: string,
+  inDestination: boolean,
+  progress?: string
+}
+
+// One badge per destination, shown when the profile syncs to more than one
+function DestinationBadges({ statuses }: { statuses: DestinationStatus[] }) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {statuses.map(status => (
+        <span
+          key={status.id}
+          className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${
+            status.progress && status.progress !== 'Completed' ? 'bg-blue-100 text-blue-800' :
+            status.inDestination ? 'bg-purple-100 text-purple-800' :
+            'bg-gray-100 text-gray-600'
+          }`}
+          title={status.inDestination ? t('tooltips.inDestination') : t('tooltips.notSynced')}
+        >
+          {status.name}: {status.progress || (status.inDestination ? t('status.inDestination') : t('status.notSynced'))}
+        </span>
+      ))}
+    </div>
+  );
+}
+
 // Book card for grid view
 function BookCard({
   book,
@@ -469,14 +696,22 @@ function BookCard({
   onSelect,
   onDetails,
   syncProgress,
-  isInDestination
+  isInDestination,
+  isStale,
+  contentSelection,
+  onPickContents,
+  destinationStatuses
 }: {
   book: Book,
   isSelected: boolean,
   onSelect: () => void,
   onDetails: () => void,
   syncProgress?: string,
-  isInDestination: boolean
+  isInDestination: boolean,
+  isStale?: boolean,
+  contentSelection?: SyncSelection,
+  onPickContents?: () => void,
+  destinationStatuses?: DestinationStatus[]
 }) {
   const { t } = useTranslation();
 
@@ -527,6 +762,11 @@ function BookCard({
                 {t('status.inDestination')}
               </span>
             )}
+            {isStale && (
+              <span className="inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-amber-100 text-amber-800" title={t('tooltips.stale')}>
+                {t('status.stale')}
+              </span>
+            )}
             {!isInDestination && syncProgress && syncProgress !== 'completed' && (
               <span className="inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-blue-100 text-blue-800">
                 {syncProgress}
@@ -537,7 +777,17 @@ function BookCard({
                 {t('status.notSynced')}
               </span>
             )}
+            {contentSelection && (
+              <span className="inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-indigo-100 text-indigo-800">
+                {t('status.partialSelection', { count: contentSelection.chapterIds.length + contentSelection.pageIds.length })}
+              </span>
+            )}
           </div>
+          {destinationStatuses && (
+            <div className="ml-7">
+              <DestinationBadges statuses={destinationStatuses} />
+            </div>
+          )}
         </div>
         
         <p className="mt-2 text-sm text-gray-600">
@@ -545,15 +795,28 @@ function BookCard({
         </p>
         
         <div className="mt-4 flex justify-between">
-          <button
-            onClick={(e) => {
-              e.stopPropagation();
-              onDetails();
-            }}
-            className="text-sm text-blue-600 hover:text-blue-800 focus:outline-none"
-          >
-            {t('buttons.viewDetails')}
-          </button>
+          <div className="flex space-x-3">
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onDetails();
+              }}
+              className="text-sm text-blue-600 hover:text-blue-800 focus:outline-none"
+            >
+              {t('buttons.viewDetails')}
+            </button>
+            {onPickContents && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onPickContents();
+                }}
+                className="text-sm text-blue-600 hover:text-blue-800 focus:outline-none"
+              >
+                {t('buttons.selectContents')}
+              </button>
+            )}
+          </div>
           <div className="text-xs text-gray-500">
             {t('book.updated')} {new Date(book.updated_at).toLocaleDateString()}
           </div>
@@ -571,7 +834,11 @@ function BookGrid({
   onDetails,
   syncProgress,
   destinationBooks,
-  isBookInDestination
+  isBookInDestination,
+  isBookStale,
+  contentSelections,
+  onPickContents,
+  getDestinationStatuses
 }: {
   books: Book[],
   selectedBookIds: number[],
@@ -579,7 +846,11 @@ function BookGrid({
   onDetails: (book: Book) => void,
   syncProgress: {[key: number]: string},
   destinationBooks: Book[],
-  isBookInDestination: (book: Book) => boolean
+  isBookInDestination: (book: Book) => boolean,
+  isBookStale?: (book: Book) => boolean,
+  contentSelections?: {[key: number]: SyncSelection},
+  onPickContents?: (book: Book) => void,
+  getDestinationStatuses?: (book: Book) => DestinationStatus[]
 }) {
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -592,6 +863,10 @@ function BookGrid({
           onDetails={() => onDetails(book)}
           syncProgress={syncProgress[book.id]}
           isInDestination={isBookInDestination(book)}
+          isStale={isBookStale?.(book)}
+          contentSelection={contentSelections?.[book.id]}
+          onPickContents={onPickContents && (() => onPickContents(book))}
+          destinationStatuses={getDestinationStatuses?.(book)}
         />
       ))}
     </div>
@@ -606,7 +881,11 @@ function BookList({
   onDetails,
   syncProgress,
   destinationBooks,
-  isBookInDestination
+  isBookInDestination,
+  isBookStale,
+  contentSelections,
+  onPickContents,
+  getDestinationStatuses
 }: {
   books: Book[],
   selectedBookIds: number[],
@@ -614,7 +893,11 @@ function BookList({
   onDetails: (book: Book) => void,
   syncProgress: {[key: number]: string},
   destinationBooks: Book[],
-  isBookInDestination: (book: Book) => boolean
+  isBookInDestination: (book: Book) => boolean,
+  isBookStale?: (book: Book) => boolean,
+  contentSelections?: {[key: number]: SyncSelection},
+  onPickContents?: (book: Book) => void,
+  getDestinationStatuses?: (book: Book) => DestinationStatus[]
 }) {
   const { t } = useTranslation();
   
@@ -692,6 +975,11 @@ function BookList({
                       {t('status.inDestination')}
                     </span>
                   )}
+                  {isBookStale?.(book) && (
+                    <span className="inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-amber-100 text-amber-800" title={t('tooltips.stale')}>
+                      {t('status.stale')}
+                    </span>
+                  )}
                   {!isBookInDestination(book) && syncProgress[book.id] && syncProgress[book.id] !== 'completed' && (
                     <span className="inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-blue-100 text-blue-800">
                       {syncProgress[book.id]}
@@ -702,7 +990,17 @@ function BookList({
                       {t('status.notSynced')}
                     </span>
                   )}
+                  {contentSelections?.[book.id] && (
+                    <span className="inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-indigo-100 text-indigo-800">
+                      {t('status.partialSelection', { count: contentSelections[book.id].chapterIds.length + contentSelections[book.id].pageIds.length })}
+                    </span>
+                  )}
                 </div>
+                {getDestinationStatuses && (
+                  <div className="mt-1">
+                    <DestinationBadges statuses={getDestinationStatuses(book)} />
+                  </div>
+                )}
               </td>
               <td className="px-3 py-4 whitespace-nowrap text-sm">
                 <button
@@ -714,6 +1012,17 @@ function BookList({
                 >
                   {t('buttons.details')}
                 </button>
+                {onPickContents && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onPickContents(book);
+                    }}
+                    className="text-blue-600 hover:text-blue-900 mr-3"
+                  >
+                    {t('buttons.selectContents')}
+                  </button>
+                )}
               </td>
             </tr>
           ))}
@@ -723,8 +1032,11 @@ function BookList({
   );
 }
 
-function App() {
+function App({ user, onLogout }: { user: AuthUser, onLogout: () => void }) {
   const { t } = useTranslation();
+  // Viewers may only list books, operators may also sync, admins may also delete, destroy and configure
+  const canSync = hasRole(user, 'operator')
+  const canAdmin = hasRole(user, 'admin')
   const [books, setBooks] = useState<Book[]>([])
   const [destinationBooks, setDestinationBooks] = useState<Book[]>([])
   const [selectedBookIds, setSelectedBookIds] = useState<number[]>([])
@@ -734,12 +1046,34 @@ function App() {
   const [apiStatus, setApiStatus] = useState<string | null>(null)
   const [syncProgress, setSyncProgress] = useState<{[key: number]: string}>({})
   const [activeBook, setActiveBook] = useState<Book | null>(null)
-  const [activeTab, setActiveTab] = useState<'books' | 'manage' | 'config'>('books')
+  const [activeBookReports, setActiveBookReports] = useState<SyncReport[]>([])
+  const [activeTab, setActiveTab] = useState<'books' | 'shelves' | 'manage' | 'schedules' | 'history' | 'config'>('books')
   const [bookToDelete, setBookToDelete] = useState<Book | null>(null)
   const [deleteStatus, setDeleteStatus] = useState<{[key: number]: string}>({})
   const [selectedDestinationBookIds, setSelectedDestinationBookIds] = useState<number[]>([])
   const [showDestroyConfirm, setShowDestroyConfirm] = useState(false)
   const [destroyStatus, setDestroyStatus] = useState<string | null>(null)
+  const [snapshotRefreshKey, setSnapshotRefreshKey] = useState(0)
+  const [contentSelections, setContentSelections] = useState<{[key: number]: SyncSelection}>({})
+  const [bookToPick, setBookToPick] = useState<Book | null>(null)
+  const [syncPlans, setSyncPlans] = useState<DestinationSyncPlan[] | null>(null)
+  const [syncMode, setSyncMode] = useState<SyncMode>('full')
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([])
+  // References the last link rewriting pass could not map, with the destination they were found on
+  const [unresolvedLinks, setUnresolvedLinks] = useState<Array<UnresolvedReference & { destinationId: string }>>([])
+  const [resumableBatch, setResumableBatch] = useState<SyncBatch | null>(null)
+  const [batchController, setBatchController] = useState<BatchController | null>(null)
+  const [batchPaused, setBatchPaused] = useState(false)
+  // Ask for the vault passphrase at startup when credentials were saved to it
+  const [showVaultUnlock, setShowVaultUnlock] = useState(() => isVaultEnabled() && !isVaultUnlocked())
+  // Destinations of the active profile, the ones the next sync targets and their progress per book
+  const [destinations, setDestinations] = useState<SyncDestination[]>([])
+  const [targetDestinationIds, setTargetDestinationIds] = useState<string[]>([PRIMARY_DESTINATION_ID])
+  const [extraDestinationBooks, setExtraDestinationBooks] = useState<{[key: string]: Book[]}>({})
+  const [destinationProgress, setDestinationProgress] = useState<{[key: number]: {[key: string]: string}}>({})
+  // Attachments and images the active profile copies with each sync
+  const [assetOptions, setAssetOptions] = useState<AssetSyncOptions>({ attachments: true, images: true })
+  const [tagRules, setTagRules] = useState<TagRules>(normalizeTagRules())
   
   // New state variables for UI improvements
   const [searchQuery, setSearchQuery] = useState<string>('')
@@ -749,8 +1083,20 @@ function App() {
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc')
   const [language, setLanguage] = useState<string>('all')
   const [syncStatus, setSyncStatus] = useState<string>('all')
+  // A "name" or "name=value" tag expression, empty for every book
+  const [tagFilter, setTagFilter] = useState<string>('')
   const [windowWidth, setWindowWidth] = useState<number>(window.innerWidth)
 
+  // Pair source books with their destination copies by sync tag rather than by name
+  const destinationIndex = useMemo(() => buildDestinationIndex(destinationBooks), [destinationBooks])
+  const destinationIndexes = useMemo(() => {
+    const indexes: {[key: string]: DestinationIndex} = { [PRIMARY_DESTINATION_ID]: destinationIndex }
+    for (const [destinationId, books] of Object.entries(extraDestinationBooks)) {
+      indexes[destinationId] = buildDestinationIndex(books)
+    }
+    return indexes
+  }, [destinationIndex, extraDestinationBooks])
+
   // Function to check API status and configuration
   const checkApiStatus = async () => {
     try {
@@ -780,13 +1126,20 @@ function App() {
   // Check API status on component mount
   useEffect(() => {
     checkApiStatus();
+    loadDestinations();
     
     // Add event listener for config updates
     const handleConfigUpdate = () => {
       checkApiStatus();
+      loadDestinations();
       // Clear books when config changes to force a reload
       setBooks([]);
       setDestinationBooks([]);
+      // Book ids belong to the previous source, so drop anything keyed by them
+      setSelectedBookIds([]);
+      setContentSelections({});
+      setSyncProgress({});
+      setDestinationProgress({});
     };
     
     window.addEventListener(CONFIG_UPDATED_EVENT, handleConfigUpdate);
@@ -797,6 +1150,84 @@ function App() {
     };
   }, []);
 
+  // Keep following sync jobs that were still running when the page was last closed,
+  // and record their outcome in the batch so the resume prompt does not offer them again
+  useEffect(() => {
+    const controller = new AbortController();
+    const activeJobs = springBootApi.getActiveSyncJobs();
+    
+    // A fan-out sync runs one job per destination; the book is done when all of them are
+    const jobIdsByBook = new Map<number, string[]>();
+    for (const [jobId, bookId] of Object.entries(activeJobs)) {
+      jobIdsByBook.set(bookId, [...(jobIdsByBook.get(bookId) || []), jobId]);
+    }
+    
+    for (const [bookId, jobIds] of jobIdsByBook) {
+      updateSyncBatchItem(bookId, 'Syncing');
+      
+      Promise.all(jobIds.map(jobId => springBootApi.watchSyncJob(jobId, job => {
+        const destinationId = job.destinationId;
+        if (destinationId && destinationId !== PRIMARY_DESTINATION_ID) {
+          setDestinationProgress(prev => ({ ...prev, [job.bookId]: { ...prev[job.bookId], [destinationId]: formatJobProgress(job) } }));
+        } else {
+          setSyncProgress(prev => ({ ...prev, [job.bookId]: formatJobProgress(job) }));
+        }
+      }, controller.signal).then(job => {
+        keepSyncReport(job).catch(err => console.error(`Error keeping the report of sync job ${jobId}:`, err));
+        return job;
+      }))).then(jobs => {
+        // Cancelled books stay pending so they can still be resumed, as in handleSync
+        const status = jobs.every(job => job.status === 'completed') ? 'Completed'
+          : jobs.some(job => job.status === 'failed') ? 'Failed'
+          : 'Pending';
+        updateSyncBatchItem(bookId, status);
+      }).catch(err => {
+        if (controller.signal.aborted) return;
+        console.error(`Error following the sync jobs of book ${bookId}:`, err);
+        updateSyncBatchItem(bookId, 'Failed');
+      }).finally(() => {
+        if (controller.signal.aborted) return;
+        // Show the prompt with the stored statuses, or hide it once nothing is left to resume
+        setResumableBatch(prev => {
+          const batch = prev && getLastSyncBatch();
+          return batch && getUnfinishedBookIds(batch).length > 0 ? batch : null;
+        });
+      });
+    }
+    
+    return () => {
+      controller.abort();
+    };
+  }, []);
+
+  // Load the sync history of the book whose details are open
+  useEffect(() => {
+    setActiveBookReports([]);
+    if (!activeBook) return;
+    
+    let current = true;
+    springBootApi.getActiveProfile().then(profile => {
+      if (current && profile.config) {
+        setActiveBookReports(getSyncReports(profile.config.sourceBaseUrl, activeBook.id));
+      }
+    }).catch(err => {
+      console.error('Error loading sync history:', err);
+    });
+    return () => { current = false; };
+  }, [activeBook]);
+
+  // Offer to resume the last batch if it stopped before every book was synced
+  useEffect(() => {
+    const batch = getLastSyncBatch();
+    const activeJobs = springBootApi.getActiveSyncJobs();
+    
+    // Books whose server-side job is still running are followed above, not re-run
+    const runningBookIds = Object.values(activeJobs)
+    if (batch && getUnfinishedBookIds(batch).some(bookId => !runningBookIds.includes(bookId))) {
+      setResumableBatch(batch);
+    }
+  }, []);
+
   // Add window resize listener for responsive layout
   useEffect(() => {
     const handleResize = () => {
@@ -811,7 +1242,7 @@ function App() {
   }, []);
 
   // Handle tab change
-  const handleTabChange = (tab: 'books' | 'manage' | 'config') => {
+  const handleTabChange = (tab: 'books' | 'shelves' | 'manage' | 'schedules' | 'history' | 'config') => {
     setActiveTab(tab);
     setCurrentPage(1); // Reset pagination when changing tabs
     setSearchQuery(''); // Clear search when changing tabs
@@ -819,13 +1250,22 @@ function App() {
     if (tab === 'books') {
       // Refresh API status when switching to books tab
       checkApiStatus();
+      if (books.length > 0) loadDestinationBooks();
     } else if (tab === 'manage') {
       // Load destination books when switching to manage tab
       loadDestinationBooks();
+    } else if (tab === 'shelves') {
+      // Shelf books are matched to their destination copies through both book lists
+      if (books.length === 0) loadBooks();
+      loadDestinationBooks();
+    } else if (tab === 'schedules' && books.length === 0) {
+      // Source books are needed to pick what a schedule syncs
+      loadBooks();
     }
   };
 
-  const loadBooks = async () => {
+  // Resolves to whether the books were loaded
+  const loadBooks = async (): Promise<boolean> => {
     try {
       setLoading(true)
       setError(null)
@@ -833,14 +1273,35 @@ function App() {
       // Use the Spring Boot API to load books
       const books = await springBootApi.listBooks()
       setBooks(books)
+      return true
     } catch (err) {
       setError('Failed to load books. Please check the Spring Boot API.')
       console.error(err)
+      return false
     } finally {
       setLoading(false)
     }
   }
 
+  // The Books tab pairs every source book with its copy on each destination, for the
+  // per-destination badges and so a fan-out sync updates renamed copies in place
+  const loadSourceBooksTab = async () => {
+    if (await loadBooks()) {
+      await loadDestinationBooks()
+    }
+  }
+
+  // Every destination of the active profile is targeted by default
+  const loadDestinations = async () => {
+    const config = await springBootApi.getConfig()
+    const profileDestinations = getDestinations(config)
+    setDestinations(profileDestinations)
+    setTargetDestinationIds(profileDestinations.length > 0 ? profileDestinations.map(d => d.id) : [PRIMARY_DESTINATION_ID])
+    setExtraDestinationBooks({})
+    setAssetOptions({ attachments: config?.syncAttachments !== false, images: config?.syncImages !== false })
+    setTagRules(normalizeTagRules(config?.tagRules))
+  }
+
   const loadDestinationBooks = async () => {
     try {
       setLoading(true)
@@ -849,6 +1310,17 @@ function App() {
       // Use the Spring Boot API to load destination books
       const books = await springBootApi.listDestinationBooks()
       setDestinationBooks(books)
+      
+      // Extra destinations only feed the per-destination badges, so one failing does not block the rest
+      const extraBooks: {[key: string]: Book[]} = {}
+      await Promise.all(destinations.slice(1).map(async destination => {
+        try {
+          extraBooks[destination.id] = await springBootApi.listDestinationBooks(destination.id)
+        } catch (err) {
+          console.error(`Failed to load books of destination ${destination.name}:`, err)
+        }
+      }))
+      setExtraDestinationBooks(extraBooks)
     } catch (err) {
       setError('Failed to load destination books. Please check the Spring Boot API.')
       console.error(err)
@@ -875,6 +1347,25 @@ function App() {
     }
   }
 
+  // Store or clear a chapter/page selection; a partial selection also selects the book
+  const handleContentSelection = (selection: SyncSelection | null) => {
+    if (!bookToPick) return;
+    const bookId = bookToPick.id;
+
+    setContentSelections(prev => {
+      const next = { ...prev };
+      delete next[bookId];
+      if (selection) {
+        next[bookId] = selection;
+      }
+      return next;
+    });
+    if (selection && !selectedBookIds.includes(bookId)) {
+      setSelectedBookIds(prev => [...prev, bookId]);
+    }
+    setBookToPick(null);
+  }
+
   const handleDestinationBookSelection = (bookId: number) => {
     setSelectedDestinationBookIds(prev => {
       if (prev.includes(bookId)) {
@@ -896,7 +1387,7 @@ function App() {
   // Reset pagination when search query changes
   useEffect(() => {
     setCurrentPage(1);
-  }, [searchQuery, sortOption, sortDirection, language, syncStatus]);
+  }, [searchQuery, sortOption, sortDirection, language, syncStatus, tagFilter]);
 
   // Check if book matches language filter
   const matchesLanguage = (book: Book): boolean => {
@@ -909,6 +1400,10 @@ function App() {
     return false;
   };
 
+  const matchesTagFilter = (book: Book): boolean => {
+    return tagFilter === '' || hasTag(book, tagFilter);
+  };
+
   // Helper to detect Chinese, Japanese, Korean characters
   const containsCJK = (text: string): boolean => {
     const cjkRegex = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff66-\uff9f]/;
@@ -920,13 +1415,18 @@ function App() {
     if (syncStatus === 'all') return true;
     
     // Check if the book is in the destination
-    const isInDestination = destinationBooks.some(destBook => destBook.name === book.name);
+    const destinationBook = findDestinationBook(destinationIndex, book);
+    const isInDestination = !!destinationBook;
+    
+    // Check if the source changed after the destination copy was last synced
+    const isStale = !!destinationBook && isDestinationCopyStale(book, destinationBook);
     
     // Check if the book has a sync operation in progress
     const isSyncing = syncProgress[book.id] && syncProgress[book.id] !== 'completed';
     
     // Match based on filter selection
     if (syncStatus === 'in-destination' && isInDestination) return true;
+    if (syncStatus === 'stale' && isStale) return true;
     if (syncStatus === 'syncing' && isSyncing) return true;
     if (syncStatus === 'not-synced' && !isInDestination && !isSyncing) return true;
     
@@ -961,10 +1461,11 @@ function App() {
         (book.name.toLowerCase().includes(searchQuery.toLowerCase()) || 
          book.description.toLowerCase().includes(searchQuery.toLowerCase())) &&
         matchesLanguage(book) &&
+        matchesTagFilter(book) &&
         matchesSyncStatus(book)
       ))
       .sort(sortBooks);
-  }, [books, searchQuery, sortOption, sortDirection, language, syncStatus, destinationBooks]);
+  }, [books, searchQuery, sortOption, sortDirection, language, tagFilter, syncStatus, destinationIndex]);
 
   // Filter and sort destination books
   const filteredDestinationBooks = useMemo(() => {
@@ -972,10 +1473,15 @@ function App() {
       .filter(book => (
         (book.name.toLowerCase().includes(searchQuery.toLowerCase()) || 
          book.description.toLowerCase().includes(searchQuery.toLowerCase())) &&
-        matchesLanguage(book)
+        matchesLanguage(book) &&
+        matchesTagFilter(book)
       ))
       .sort(sortBooks);
-  }, [destinationBooks, searchQuery, sortOption, sortDirection, language]);
+  }, [destinationBooks, searchQuery, sortOption, sortDirection, language, tagFilter]);
+
+  // Tags to filter on, counted over all books of each tab
+  const sourceTagFacets = useMemo(() => countTagFacets(books), [books]);
+  const destinationTagFacets = useMemo(() => countTagFacets(destinationBooks), [destinationBooks]);
 
   // Calculate total pages for source books
   const totalPages = Math.max(1, Math.ceil(filteredBooks.length / ITEMS_PER_PAGE));
@@ -1062,12 +1568,22 @@ function App() {
 
   const confirmDeleteMultipleBooks = async () => {
     if (selectedDestinationBookIds.length === 0) return;
+    if (!canAdmin) {
+      setError('You do not have permission to delete books');
+      setBookToDelete(null);
+      return;
+    }
     
     try {
       setLoading(true);
       setError(null);
       setSuccess(null);
       
+      if (!(await takeSnapshot('delete', selectedDestinationBookIds))) {
+        setBookToDelete(null);
+        return;
+      }
+      
       // Initialize all selected books as "Pending"
       const initialDeleteStatus = selectedDestinationBookIds.reduce((acc, id) => {
         acc[id] = 'Pending'
@@ -1076,33 +1592,42 @@ function App() {
       
       setDeleteStatus(initialDeleteStatus);
       
-      // Process each book one by one
+      // Process the books with a bounded number of deletions at once
       let completedCount = 0;
       let failedCount = 0;
+      const deletedIds: number[] = [];
+      const auditItems: AuditItem[] = [];
+      const poolSettings = await springBootApi.getWorkerPoolSettings();
       
-      for (const bookId of selectedDestinationBookIds) {
+      await runWithConcurrency(selectedDestinationBookIds, poolSettings, async (bookId) => {
         const book = destinationBooks.find(b => b.id === bookId);
         if (book) {
           setDeleteStatus(prev => ({ ...prev, [bookId]: 'Deleting...' }));
           
           try {
             // Delete the book
-            await springBootApi.deleteDestinationBook(bookId);
+            await springBootApi.deleteDestinationBook(bookId, PRIMARY_DESTINATION_ID, {
+              onRetry: (attempt, maxRetries) => {
+                setDeleteStatus(prev => ({ ...prev, [bookId]: `Retrying (${attempt}/${maxRetries})` }));
+              }
+            });
             setDeleteStatus(prev => ({ ...prev, [bookId]: 'Deleted' }));
+            deletedIds.push(bookId);
+            auditItems.push({ bookId, bookName: book.name, result: 'succeeded', destinationId: PRIMARY_DESTINATION_ID });
             completedCount++;
           } catch (err) {
             console.error(`Error deleting destination book ${bookId}:`, err);
             setDeleteStatus(prev => ({ ...prev, [bookId]: 'Failed' }));
+            auditItems.push({ bookId, bookName: book.name, result: 'failed', destinationId: PRIMARY_DESTINATION_ID, error: errorMessage(err) });
             failedCount++;
           }
         }
-      }
+      });
+      
+      await recordAudit({ action: 'delete', items: auditItems });
       
       // Remove successfully deleted books from the list
-      setDestinationBooks(prev => 
-        prev.filter(book => !selectedDestinationBookIds.includes(book.id) || 
-          deleteStatus[book.id] === 'Failed')
-      );
+      setDestinationBooks(prev => prev.filter(book => !deletedIds.includes(book.id)));
       
       // Clear selection
       setSelectedDestinationBookIds([]);
@@ -1125,6 +1650,11 @@ function App() {
 
   const confirmDeleteBook = async () => {
     if (!bookToDelete) return;
+    if (!canAdmin) {
+      setError('You do not have permission to delete books');
+      setBookToDelete(null);
+      return;
+    }
     
     // If id is -1, it's a multiple deletion
     if (bookToDelete.id === -1) {
@@ -1138,14 +1668,23 @@ function App() {
       setError(null);
       setSuccess(null);
       
+      if (!(await takeSnapshot('delete', [bookToDelete.id]))) {
+        setBookToDelete(null);
+        return;
+      }
+      
       // Update status to "Deleting"
       setDeleteStatus(prev => ({ ...prev, [bookToDelete.id]: 'Deleting...' }));
       
       // Delete the book
-      await springBootApi.deleteDestinationBook(bookToDelete.id);
+      await springBootApi.deleteDestinationBook(bookToDelete.id, PRIMARY_DESTINATION_ID);
       
       // Update status to "Deleted"
       setDeleteStatus(prev => ({ ...prev, [bookToDelete.id]: 'Deleted' }));
+      await recordAudit({
+        action: 'delete',
+        items: [{ bookId: bookToDelete.id, bookName: bookToDelete.name, result: 'succeeded', destinationId: PRIMARY_DESTINATION_ID }]
+      });
       
       // Remove the book from the list
       setDestinationBooks(prev => prev.filter(book => book.id !== bookToDelete.id));
@@ -1156,6 +1695,10 @@ function App() {
       setError(`Failed to delete book "${bookToDelete.name}". Please check the Spring Boot API.`);
       setDeleteStatus(prev => ({ ...prev, [bookToDelete.id]: 'Failed' }));
       console.error(err);
+      await recordAudit({
+        action: 'delete',
+        items: [{ bookId: bookToDelete.id, bookName: bookToDelete.name, result: 'failed', destinationId: PRIMARY_DESTINATION_ID, error: errorMessage(err) }]
+      });
     } finally {
       setLoading(false);
     }
@@ -1165,69 +1708,584 @@ function App() {
     setBookToDelete(null);
   }
 
-  const handleSync = async () => {
-    if (selectedBookIds.length === 0) {
+  // Back up destination books before they are deleted or overwritten.
+  // Without a snapshot the change could not be undone, so callers stop when this returns false.
+  const takeSnapshot = async (reason: SnapshotReason, bookIds?: number[], destinationId?: string): Promise<boolean> => {
+    try {
+      await springBootApi.createSnapshot(reason, bookIds, destinationId)
+      return true
+    } catch (err) {
+      console.error('Error creating destination snapshot:', err)
+      setError(`The destination books could not be backed up first, so nothing was changed. ${errorMessage(err)}`)
+      return false
+    } finally {
+      setSnapshotRefreshKey(key => key + 1)
+    }
+  }
+
+  const handleSnapshotRestored = async (snapshot: DestinationSnapshot, items: SnapshotRestoreItem[]) => {
+    const failedCount = items.filter(item => item.error).length
+    if (failedCount === 0) {
+      setSuccess(`All ${items.length} books of the snapshot were restored.`)
+    } else {
+      setSuccess(`Restore completed: ${items.length - failedCount} succeeded, ${failedCount} failed.`)
+    }
+    
+    await recordAudit({
+      action: 'restore',
+      items: items.map(item => ({
+        bookId: item.bookId ?? item.snapshotBookId,
+        bookName: item.name,
+        result: item.error ? 'failed' : 'succeeded',
+        destinationId: snapshot.destinationId,
+        error: item.error
+      }))
+    })
+    loadDestinationBooks()
+  }
+
+  // The outcome of the action is already known, so failing to record it only goes to the console
+  const recordAudit = async (entry: Omit<NewAuditEntry, 'profile'>) => {
+    try {
+      const profile = await springBootApi.getActiveProfile()
+      await springBootApi.recordAuditEntry({ ...entry, profile: profile.name })
+    } catch (err) {
+      console.error('Error recording audit entry:', err)
+    }
+  }
+
+  // Options for syncing one source book; a known destination copy is updated in place even if renamed
+  const getSyncOptions = (bookId: number, destinationId: string = PRIMARY_DESTINATION_ID): SyncBookOptions => {
+    const book = books.find(b => b.id === bookId)
+    const index = destinationIndexes[destinationId]
+    const destinationBook = book && index && findDestinationBook(index, book)
+    
+    return {
+      selection: contentSelections[bookId],
+      destinationBookId: destinationBook?.id,
+      destinationId,
+      assets: assetOptions,
+      tagRules
+    }
+  }
+
+  // Options of a book in a resumed batch: the chapters, pages and destination copy it was started with,
+  // and the current settings of the profile
+  const getBatchSyncOptions = (bookId: number, destinationId: string, saved?: SyncBookOptions): SyncBookOptions => {
+    const options = getSyncOptions(bookId, destinationId)
+    if (!saved) return options
+    
+    return { ...options, selection: saved.selection, destinationBookId: options.destinationBookId ?? saved.destinationBookId }
+  }
+
+  // Submit a sync job and follow its progress until it finishes
+  // Without a destination id the job goes to the primary destination and reports in syncProgress,
+  // otherwise it reports in that destination's entry of destinationProgress
+  const runSyncJob = async (bookId: number, mode: SyncMode, resolutions: ConflictResolution[] = [], signal?: AbortSignal, destinationId?: string, options: SyncBookOptions = getSyncOptions(bookId, destinationId)) => {
+    const report = (status: string) => {
+      if (destinationId) {
+        setDestinationProgress(prev => ({ ...prev, [bookId]: { ...prev[bookId], [destinationId]: status } }))
+      } else {
+        setSyncProgress(prev => ({ ...prev, [bookId]: status }))
+      }
+    }
+    
+    const job = await springBootApi.submitSyncJob(bookId, mode, options, resolutions, {
+      signal,
+      onRetry: (attempt, maxRetries) => report(`Retrying (${attempt}/${maxRetries})`)
+    })
+    report(formatJobProgress(job))
+    
+    let result: SyncJob
+    try {
+      result = await springBootApi.watchSyncJob(job.id, progress => report(formatJobProgress(progress)), signal)
+    } catch (err) {
+      // Cancelling the batch also stops the job on the server
+      if (signal?.aborted) {
+        await springBootApi.cancelSyncJob(job.id).catch(cancelErr => {
+          console.error(`Error cancelling sync job ${job.id}:`, cancelErr)
+        })
+      }
+      throw err
+    }
+    
+    await keepSyncReport(result)
+    if (result.status !== 'completed') {
+      throw new Error(result.error || `Sync job ${job.id} ended as ${result.status}`)
+    }
+  }
+
+  // Sync one book to several destinations at once; fails if any of them failed
+  const runFanOutSync = async (bookId: number, mode: SyncMode, optionsByDestination: SyncBatchOptions, signal?: AbortSignal) => {
+    const results = await Promise.allSettled(Object.entries(optionsByDestination).map(async ([destinationId, options]) => {
+      try {
+        await runSyncJob(bookId, mode, [], signal, destinationId, options)
+      } catch (err) {
+        setDestinationProgress(prev => ({ ...prev, [bookId]: { ...prev[bookId], [destinationId]: signal?.aborted ? 'Cancelled' : 'Failed' } }))
+        throw err
+      }
+    }))
+    
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected')
+    if (failure) {
+      throw failure.reason
+    }
+  }
+
+  // Resolves to whether the batch ran to the end without being cancelled.
+  // savedOptions holds the options of resumed books, by book id.
+  const handleSync = async (bookIds: number[] = selectedBookIds, mode: SyncMode = syncMode, savedOptions: {[key: number]: SyncBatchOptions} = {}): Promise<boolean> => {
+    if (!canSync) {
+      setError('You do not have permission to sync books')
+      return false
+    }
+    if (bookIds.length === 0) {
       setError('Please select at least one book to sync')
-      return
+      return false
+    }
+    if (targetDestinationIds.length === 0) {
+      setError('Please select at least one destination to sync to')
+      return false
+    }
+    
+    // Books the profile's tag rules leave out are not sent at all.
+    // Resumed books that are not loaded cannot be checked here; the backend applies the same rules to them.
+    const excludedIds = bookIds.filter(id => {
+      const book = books.find(b => b.id === id)
+      return !!book && !isSyncAllowed(book, tagRules)
+    })
+    if (excludedIds.length === bookIds.length) {
+      setError('None of the selected books match the tag rules of this profile')
+      return false
     }
+    bookIds = bookIds.filter(id => !excludedIds.includes(id))
+    const excludedNote = excludedIds.length > 0 ? ` ${excludedIds.length} books were left out by the tag rules.` : ''
+    
+    // Two-way sync only runs against the primary destination
+    const destinationIds = mode === 'two-way' ? [PRIMARY_DESTINATION_ID] : targetDestinationIds
+    const isFanOut = destinationIds.length > 1 || destinationIds[0] !== PRIMARY_DESTINATION_ID
 
     try {
       setLoading(true)
       setError(null)
       setSuccess(null)
+      setResumableBatch(null)
+      
+      // Optionally back up the destination copies the sync is about to overwrite.
+      // The copies are looked up in fresh book lists, since the loaded ones may be missing or outdated,
+      // and the sync does not start when a list cannot be loaded.
+      const config = await springBootApi.getConfig()
+      if (config?.snapshotBeforeSync) {
+        for (const destinationId of destinationIds) {
+          let index: DestinationIndex
+          try {
+            index = buildDestinationIndex(await springBootApi.listDestinationBooks(destinationId))
+          } catch (err) {
+            console.error(`Failed to load books of destination ${destinationId} for the snapshot:`, err)
+            setError(`Could not load the destination books to snapshot them, so the sync was not started: ${errorMessage(err)}`)
+            return false
+          }
+          
+          // Resumed books that are not loaded can still be paired by their sync tag
+          const existingCopyIds = bookIds
+            .map(id => {
+              const book = books.find(b => b.id === id)
+              return book ? findDestinationBook(index, book) : index.bySourceId.get(id)
+            })
+            .filter((copy): copy is Book => !!copy)
+            .map(copy => copy.id)
+          
+          if (existingCopyIds.length > 0 && !(await takeSnapshot('sync', existingCopyIds, destinationId))) {
+            return false
+          }
+        }
+      }
       
       // Initialize all selected books as "Pending"
-      const initialProgress = selectedBookIds.reduce((acc, id) => {
+      const initialProgress = bookIds.reduce((acc, id) => {
         acc[id] = 'Pending'
         return acc
       }, {} as {[key: number]: string})
       
       setSyncProgress(initialProgress)
+      setDestinationProgress(prev => bookIds.reduce((acc, id) => ({ ...acc, [id]: {} }), prev))
+      
+      // Record the batch so it can be resumed if the page is closed midway.
+      // Resumed books may not be loaded yet, so fall back to the names in the previous batch.
+      // The options are kept with the batch, so resuming it syncs the same contents to the same copies.
+      const previousBatch = getLastSyncBatch()
+      const batchOptions = bookIds.reduce((acc, id) => {
+        acc[id] = destinationIds.reduce((options, destinationId) => {
+          options[destinationId] = getBatchSyncOptions(id, destinationId, savedOptions[id]?.[destinationId])
+          return options
+        }, {} as SyncBatchOptions)
+        return acc
+      }, {} as {[key: number]: SyncBatchOptions})
+      const batchBooks = bookIds.map(id => ({
+        id,
+        name: books.find(b => b.id === id)?.name ?? previousBatch?.items[id]?.name ?? `Book ${id}`,
+        options: batchOptions[id]
+      }))
+      startSyncBatch(batchBooks, mode)
+      
+      // Fan-out failures are recorded per book, without telling the destinations apart
+      const auditItems: AuditItem[] = []
+      const addAuditItem = (bookId: number, result: AuditItem['result'], error?: string) => {
+        auditItems.push({
+          bookId,
+          bookName: batchBooks.find(b => b.id === bookId)?.name ?? `Book ${bookId}`,
+          result,
+          destinationId: isFanOut ? undefined : destinationIds[0],
+          error
+        })
+      }
 
-      // Sync each selected book
+      // Sync the selected books with a bounded number running at once
       let completedCount = 0;
       let failedCount = 0;
+      let cancelledCount = 0;
+      const poolSettings = await springBootApi.getWorkerPoolSettings()
       
-      for (const bookId of selectedBookIds) {
-        const book = books.find(b => b.id === bookId)
-        if (book) {
-          setSyncProgress(prev => ({ ...prev, [bookId]: 'Syncing...' }))
+      // Pause, resume and cancel controls for this batch
+      const controller = new BatchController()
+      const startedIds: number[] = []
+      setBatchController(controller)
+      setBatchPaused(false)
+      
+      // Two-way books with pages edited on both sides wait for the conflict resolver
+      const pendingConflicts: SyncConflict[] = [];
+      
+      await runWithConcurrency(bookIds, poolSettings, async (bookId) => {
+        const optionsByDestination = batchOptions[bookId]
+        startedIds.push(bookId)
+        setSyncProgress(prev => ({ ...prev, [bookId]: 'Syncing...' }))
+        updateSyncBatchItem(bookId, 'Syncing')
+        
+        try {
+          // Two-way books with conflicts are held back until the conflicts are resolved
+          if (mode === 'two-way') {
+            const conflicts = await springBootApi.getSyncConflicts(bookId, optionsByDestination[PRIMARY_DESTINATION_ID], { signal: controller.signal })
+            if (conflicts.length > 0) {
+              pendingConflicts.push(...conflicts)
+              setSyncProgress(prev => ({ ...prev, [bookId]: `Conflicts (${conflicts.length})` }))
+              updateSyncBatchItem(bookId, 'Pending')
+              addAuditItem(bookId, 'conflicts')
+              return
+            }
+          }
           
-          try {
-            // Use the Spring Boot API to sync the book
-            await springBootApi.syncBook(bookId)
-            setSyncProgress(prev => ({ ...prev, [bookId]: 'Completed' }))
-            completedCount++;
-          } catch (err) {
-            console.error(`Error syncing book ${book.name}:`, err)
-            setSyncProgress(prev => ({ ...prev, [bookId]: 'Failed' }))
-            failedCount++;
+          // Run the sync as a server-side job, or only its selected contents
+          if (isFanOut) {
+            await runFanOutSync(bookId, mode, optionsByDestination, controller.signal)
+          } else {
+            await runSyncJob(bookId, mode, [], controller.signal, undefined, optionsByDestination[PRIMARY_DESTINATION_ID])
           }
+          setSyncProgress(prev => ({ ...prev, [bookId]: 'Completed' }))
+          updateSyncBatchItem(bookId, 'Completed')
+          addAuditItem(bookId, 'succeeded')
+          completedCount++;
+        } catch (err) {
+          if (controller.isCancelled) {
+            // Left as pending in the batch so it can still be resumed later
+            setSyncProgress(prev => ({ ...prev, [bookId]: 'Cancelled' }))
+            updateSyncBatchItem(bookId, 'Pending')
+            addAuditItem(bookId, 'cancelled')
+            cancelledCount++;
+            return
+          }
+          console.error(`Error syncing book ${bookId}:`, err)
+          setSyncProgress(prev => ({ ...prev, [bookId]: 'Failed' }))
+          updateSyncBatchItem(bookId, 'Failed')
+          addAuditItem(bookId, 'failed', errorMessage(err))
+          failedCount++;
         }
+      }, controller)
+      
+      // Books that never started because the batch was cancelled
+      if (controller.isCancelled) {
+        const notStartedIds = bookIds.filter(id => !startedIds.includes(id))
+        setSyncProgress(prev => notStartedIds.reduce((acc, id) => ({ ...acc, [id]: 'Cancelled' }), prev))
+        notStartedIds.forEach(id => addAuditItem(id, 'cancelled'))
+        cancelledCount += notStartedIds.length
       }
       
+      finishSyncBatch()
+      await recordAudit({ action: 'sync', mode, items: auditItems })
+      
       // Set appropriate success message
-      if (failedCount === 0) {
-        setSuccess(`All ${completedCount} books synchronized successfully!`)
+      if (controller.isCancelled) {
+        setSuccess(`Synchronization cancelled: ${completedCount} succeeded, ${failedCount} failed, ${cancelledCount} cancelled.`)
+      } else if (pendingConflicts.length > 0) {
+        setSyncConflicts(pendingConflicts)
+        setSuccess(`Synchronization paused: ${pendingConflicts.length} conflicting pages need to be resolved.`)
+      } else if (failedCount === 0) {
+        setSuccess(`All ${completedCount} books synchronized successfully!${excludedNote}`)
       } else {
-        setSuccess(`Synchronization completed: ${completedCount} succeeded, ${failedCount} failed.`)
+        setSuccess(`Synchronization completed: ${completedCount} succeeded, ${failedCount} failed.${excludedNote}`)
       }
+      return !controller.isCancelled
     } catch (err) {
       setError('Failed to sync books. Please check the Spring Boot API.')
       console.error(err)
+      return false
+    } finally {
+      setLoading(false)
+      setBatchController(null)
+    }
+  }
+
+  // Sync every book of a shelf, then recreate the shelf on each target destination with the same books in the same order
+  const handleSyncShelf = async (shelf: Shelf) => {
+    if (syncMode === 'two-way') {
+      setError('Shelves can only be synced in full or delta mode')
+      return
+    }
+    
+    const bookIds = shelf.books.map(book => book.id)
+    if (bookIds.length > 0 && !(await handleSync(bookIds))) return
+    
+    try {
+      setLoading(true)
+      // One destination failing does not undo the shelves already written to the others
+      const results = await Promise.allSettled(targetDestinationIds.map(destinationId => springBootApi.syncShelf(shelf.id, destinationId)))
+      
+      const auditItems: AuditItem[] = results.map((result, index) => ({
+        bookId: shelf.id,
+        bookName: shelf.name,
+        result: result.status === 'fulfilled' ? 'succeeded' : 'failed',
+        destinationId: targetDestinationIds[index],
+        error: result.status === 'rejected' ? errorMessage(result.reason) : undefined
+      }))
+      await recordAudit({ action: 'shelf', items: auditItems })
+      
+      const failures = results.flatMap((result, index) => result.status === 'rejected'
+        ? [`${destinations.find(d => d.id === targetDestinationIds[index])?.name ?? targetDestinationIds[index]}: ${errorMessage(result.reason)}`]
+        : [])
+      const missingCount = new Set(results.flatMap(result => result.status === 'fulfilled' ? result.value.missingBookIds : [])).size
+      if (failures.length > 0) {
+        failures.forEach(failure => console.error(`Failed to sync shelf "${shelf.name}" to ${failure}`))
+        setError(`Failed to sync shelf "${shelf.name}" to ${failures.length} of ${results.length} destinations. ${failures.join('; ')}`)
+      } else if (missingCount === 0) {
+        setSuccess(`Shelf "${shelf.name}" synchronized with all ${bookIds.length} books.`)
+      } else {
+        setSuccess(`Shelf "${shelf.name}" synchronized; ${missingCount} books without a destination copy were left off.`)
+      }
+      loadDestinationBooks()
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Rerun link rewriting over everything already synced, e.g. once the books a page links to have been synced too
+  const handleRewriteLinks = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      setSuccess(null)
+      setUnresolvedLinks([])
+      const results = await Promise.all(targetDestinationIds.map(destinationId => springBootApi.rewriteLinks(destinationId)))
+      
+      const rewrittenCount = results.reduce((sum, result) => sum + result.linksRewritten, 0)
+      const pageCount = results.reduce((sum, result) => sum + result.pagesUpdated, 0)
+      const unresolved = results.flatMap(result => result.unresolved.map(reference => ({ ...reference, destinationId: result.destinationId })))
+      setSuccess(`${rewrittenCount} links rewritten in ${pageCount} pages.`)
+      setUnresolvedLinks(unresolved)
+    } catch (err) {
+      setError(`Failed to rewrite links. ${errorMessage(err)}`)
+      console.error(err)
     } finally {
       setLoading(false)
     }
   }
 
+  // Finish the two-way sync of books that were waiting on conflict resolution
+  const handleResolveConflicts = async (resolutions: {[key: number]: ConflictResolution[]}) => {
+    setSyncConflicts([])
+    
+    try {
+      setLoading(true)
+      setError(null)
+      setSuccess(null)
+      
+      let completedCount = 0;
+      let failedCount = 0;
+      const auditItems: AuditItem[] = [];
+      
+      for (const bookId of Object.keys(resolutions).map(Number)) {
+        setSyncProgress(prev => ({ ...prev, [bookId]: 'Syncing...' }))
+        const bookName = books.find(b => b.id === bookId)?.name ?? `Book ${bookId}`
+        
+        try {
+          // Sync the contents the batch was started with
+          const saved = getLastSyncBatch()?.items[bookId]?.options?.[PRIMARY_DESTINATION_ID]
+          await runSyncJob(bookId, 'two-way', resolutions[bookId], undefined, undefined, getBatchSyncOptions(bookId, PRIMARY_DESTINATION_ID, saved))
+          setSyncProgress(prev => ({ ...prev, [bookId]: 'Completed' }))
+          updateSyncBatchItem(bookId, 'Completed')
+          auditItems.push({ bookId, bookName, result: 'succeeded', destinationId: PRIMARY_DESTINATION_ID })
+          completedCount++;
+        } catch (err) {
+          console.error(`Error resolving conflicts of book ${bookId}:`, err)
+          setSyncProgress(prev => ({ ...prev, [bookId]: 'Failed' }))
+          updateSyncBatchItem(bookId, 'Failed')
+          auditItems.push({ bookId, bookName, result: 'failed', destinationId: PRIMARY_DESTINATION_ID, error: errorMessage(err) })
+          failedCount++;
+        }
+      }
+      
+      await recordAudit({ action: 'sync', mode: 'two-way', items: auditItems })
+      
+      if (failedCount === 0) {
+        setSuccess(`Conflicts resolved and ${completedCount} books synchronized successfully!`)
+      } else {
+        setSuccess(`Conflict resolution completed: ${completedCount} succeeded, ${failedCount} failed.`)
+      }
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // The books stay pending in the batch, so the resume banner brings the resolver back
+  const cancelConflictResolution = () => {
+    const bookIds = [...new Set(syncConflicts.map(conflict => conflict.bookId))]
+    setSyncProgress(prev => bookIds.reduce((acc, id) => ({ ...acc, [id]: 'Cancelled' }), prev))
+    setSyncConflicts([])
+    setResumableBatch(getLastSyncBatch())
+  }
+
+  const toggleTargetDestination = (destinationId: string) => {
+    setTargetDestinationIds(prev => prev.includes(destinationId)
+      ? prev.filter(id => id !== destinationId)
+      : [...prev, destinationId])
+  }
+
+  // Per-destination badges, only worth showing when the profile has more than one destination
+  const getDestinationStatuses = (book: Book): DestinationStatus[] => {
+    return destinations.map(destination => {
+      const index = destinationIndexes[destination.id]
+      return {
+        id: destination.id,
+        name: destination.name || destination.baseUrl,
+        inDestination: !!index && !!findDestinationBook(index, book),
+        progress: destinationProgress[book.id]?.[destination.id]
+      }
+    })
+  }
+
+  const togglePauseBatch = () => {
+    if (!batchController) return
+    
+    if (batchController.isPaused) {
+      batchController.resume()
+      setBatchPaused(false)
+    } else {
+      batchController.pause()
+      setBatchPaused(true)
+    }
+  }
+
+  const cancelBatch = () => {
+    batchController?.cancel()
+    setBatchPaused(false)
+  }
+
+  // Re-run only the books of the last batch that did not complete
+  const handleResumeBatch = () => {
+    if (!resumableBatch) return
+    
+    // Followed jobs may have finished since the prompt was shown, so read the stored statuses
+    const batch = getLastSyncBatch() ?? resumableBatch
+    const runningBookIds = Object.values(springBootApi.getActiveSyncJobs())
+    const bookIds = getUnfinishedBookIds(batch).filter(bookId => !runningBookIds.includes(bookId))
+    if (bookIds.length === 0) {
+      setResumableBatch(null)
+      return
+    }
+    const savedOptions = bookIds.reduce((acc, bookId) => {
+      const options = batch.items[bookId].options
+      if (options) acc[bookId] = options
+      return acc
+    }, {} as {[key: number]: SyncBatchOptions})
+    setSyncMode(batch.mode)
+    handleSync(bookIds, batch.mode, savedOptions)
+  }
+
+  const dismissResumableBatch = () => {
+    clearSyncBatch()
+    setResumableBatch(null)
+  }
+
+  // Dry run: show what the sync would change before starting it
+  const handlePreview = async () => {
+    if (selectedBookIds.length === 0) {
+      setError('Please select at least one book to preview')
+      return
+    }
+    if (targetDestinationIds.length === 0) {
+      setError('Please select at least one destination to sync to')
+      return
+    }
+    
+    // The same destinations as the sync itself, each with its own plan
+    const destinationIds = syncMode === 'two-way' ? [PRIMARY_DESTINATION_ID] : targetDestinationIds
+
+    try {
+      setLoading(true)
+      setError(null)
+      setSuccess(null)
+      
+      const plans = await Promise.all(destinationIds.map(async destinationId => {
+        const optionsByBook = selectedBookIds.reduce((acc, id) => {
+          acc[id] = getSyncOptions(id, destinationId)
+          return acc
+        }, {} as {[key: number]: SyncBookOptions})
+        
+        return {
+          name: destinations.find(d => d.id === destinationId)?.name ?? destinationId,
+          plan: await springBootApi.previewSync(selectedBookIds, optionsByBook, syncMode, destinationId)
+        }
+      }))
+      setSyncPlans(plans)
+    } catch (err) {
+      setError('Failed to preview the sync. Please check the Spring Boot API.')
+      console.error(err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const confirmSyncPlan = () => {
+    setSyncPlans(null)
+    handleSync()
+  }
+
   const handleDestroy = async () => {
+    if (!canAdmin) {
+      setError('You do not have permission to destroy books');
+      setShowDestroyConfirm(false);
+      return;
+    }
+    
+    // Destroy removes every destination book, so the audit lists the ones known to exist
+    const destroyedBooks = destinationBooks;
+    
     try {
       setLoading(true);
       setError(null);
       setSuccess(null);
-      setDestroyStatus('Destroying...');
+      setDestroyStatus('Backing up...');
       
-      await springBootApi.destroy();
+      if (!(await takeSnapshot('destroy'))) {
+        setDestroyStatus('Cancelled');
+        setShowDestroyConfirm(false);
+        return;
+      }
+      
+      setDestroyStatus('Destroying...');
+      await springBootApi.destroy(PRIMARY_DESTINATION_ID);
+      await recordAudit({
+        action: 'destroy',
+        items: destroyedBooks.map(book => ({ bookId: book.id, bookName: book.name, result: 'succeeded', destinationId: PRIMARY_DESTINATION_ID }))
+      });
       
       setDestroyStatus('Destroyed');
       setSuccess('All books have been destroyed successfully.');
@@ -1238,36 +2296,57 @@ function App() {
       setError('Failed to destroy books. Please check the Spring Boot API.');
       setDestroyStatus('Failed');
       console.error(err);
+      await recordAudit({
+        action: 'destroy',
+        items: destroyedBooks.map(book => ({ bookId: book.id, bookName: book.name, result: 'failed', destinationId: PRIMARY_DESTINATION_ID, error: errorMessage(err) }))
+      });
     } finally {
       setLoading(false);
     }
   };
 
+  // The Destination Books tab only lists the primary destination, so deletes and destroy leave the copies on the others
+  const primaryOnlyNote = destinations.length > 1
+    ? ` ${t('modals.primaryDestinationOnly', { name: destinations[0].name, count: destinations.length - 1 })}`
+    : ''
+
   // Calculate counts for status badges
   const inDestinationCount = useMemo(() => {
     return books.filter(book => 
-      destinationBooks.some(destBook => destBook.name === book.name)
+      findDestinationBook(destinationIndex, book)
     ).length;
-  }, [books, destinationBooks]);
+  }, [books, destinationIndex]);
+
+  const staleCount = useMemo(() => {
+    return books.filter(book => {
+      const destinationBook = findDestinationBook(destinationIndex, book);
+      return destinationBook && isDestinationCopyStale(book, destinationBook);
+    }).length;
+  }, [books, destinationIndex]);
 
   const syncingCount = useMemo(() => {
     return books.filter(book => 
       syncProgress[book.id] && 
       syncProgress[book.id] !== 'completed' &&
-      !destinationBooks.some(destBook => destBook.name === book.name)
+      !findDestinationBook(destinationIndex, book)
     ).length;
-  }, [books, destinationBooks, syncProgress]);
+  }, [books, destinationIndex, syncProgress]);
 
   const notSyncedCount = useMemo(() => {
     return books.filter(book => 
-      !destinationBooks.some(destBook => destBook.name === book.name) &&
+      !findDestinationBook(destinationIndex, book) &&
       (!syncProgress[book.id] || syncProgress[book.id] === 'Failed')
     ).length;
-  }, [books, destinationBooks, syncProgress]);
+  }, [books, destinationIndex, syncProgress]);
 
   // Helper functions to check book status
   const isBookInDestination = (book: Book): boolean => {
-    return destinationBooks.some(destBook => destBook.name === book.name);
+    return !!findDestinationBook(destinationIndex, book);
+  };
+
+  const isBookStale = (book: Book): boolean => {
+    const destinationBook = findDestinationBook(destinationIndex, book);
+    return !!destinationBook && isDestinationCopyStale(book, destinationBook);
   };
 
   const handleDeleteBook = async (book: Book) => {
@@ -1313,6 +2392,57 @@ function App() {
           </div>
         )}
         
+        {unresolvedLinks.length > 0 && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 mb-6">
+            <p className="text-yellow-800 text-center">{t('links.unresolved', { count: unresolvedLinks.length })}</p>
+            <ul className="mt-2 text-sm text-yellow-800 space-y-1">
+              {unresolvedLinks.map((reference, index) => (
+                <li key={index}>
+                  {reference.pageName}
+                  {destinations.length > 1 && (
+                    <span className="text-yellow-700"> ({destinations.find(d => d.id === reference.destinationId)?.name ?? reference.destinationId})</span>
+                  )}
+                  : <code className="bg-yellow-100 px-1 rounded">{reference.reference}</code>
+                </li>
+              ))}
+            </ul>
+            <div className="flex justify-center mt-2">
+              <button
+                onClick={() => setUnresolvedLinks([])}
+                className="text-yellow-800 font-medium text-sm hover:text-yellow-900 focus:outline-none"
+              >
+                {t('buttons.dismiss')}
+              </button>
+            </div>
+          </div>
+        )}
+        
+        {resumableBatch && !loading && canSync && (
+          <div className="bg-blue-50 border border-blue-200 rounded-md p-4 mb-6">
+            <p className="text-blue-800 text-center">
+              {t('resume.message', {
+                count: getUnfinishedBookIds(resumableBatch).length,
+                total: Object.keys(resumableBatch.items).length,
+                date: new Date(resumableBatch.startedAt).toLocaleString()
+              })}
+            </p>
+            <div className="flex justify-center mt-2 space-x-4">
+              <button
+                onClick={handleResumeBatch}
+                className="text-blue-800 font-medium text-sm hover:text-blue-900 focus:outline-none"
+              >
+                {t('buttons.resumeLastSync')}
+              </button>
+              <button
+                onClick={dismissResumableBatch}
+                className="text-blue-800 font-medium text-sm hover:text-blue-900 focus:outline-none"
+              >
+                {t('buttons.dismiss')}
+              </button>
+            </div>
+          </div>
+        )}
+        
         {destroyStatus && (
           <div className="bg-green-50 border border-green-200 rounded-md p-4 mb-6">
             <p className="text-green-800 text-center">{destroyStatus}</p>
@@ -1339,6 +2469,16 @@ function App() {
             >
               {t('tabs.sourceBooks')}
             </button>
+            <button
+              onClick={() => handleTabChange('shelves')}
+              className={`px-4 py-2 font-medium text-sm focus:outline-none ${
+                activeTab === 'shelves'
+                  ? 'text-blue-600 border-b-2 border-blue-600'
+                  : 'text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {t('tabs.shelves')}
+            </button>
             <button
               onClick={() => handleTabChange('manage')}
               className={`px-4 py-2 font-medium text-sm focus:outline-none ${
@@ -1349,25 +2489,58 @@ function App() {
             >
               {t('tabs.destinationBooks')}
             </button>
+            {canSync && (
+              <button
+                onClick={() => handleTabChange('schedules')}
+                className={`px-4 py-2 font-medium text-sm focus:outline-none ${
+                  activeTab === 'schedules'
+                    ? 'text-blue-600 border-b-2 border-blue-600'
+                    : 'text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                {t('tabs.schedules')}
+              </button>
+            )}
             <button
-              onClick={() => handleTabChange('config')}
+              onClick={() => handleTabChange('history')}
               className={`px-4 py-2 font-medium text-sm focus:outline-none ${
-                activeTab === 'config'
+                activeTab === 'history'
                   ? 'text-blue-600 border-b-2 border-blue-600'
                   : 'text-gray-500 hover:text-gray-700 hover:border-gray-300'
               }`}
             >
-              {t('tabs.configuration')}
+              {t('tabs.history')}
             </button>
+            {canAdmin && (
+              <button
+                onClick={() => handleTabChange('config')}
+                className={`px-4 py-2 font-medium text-sm focus:outline-none ${
+                  activeTab === 'config'
+                    ? 'text-blue-600 border-b-2 border-blue-600'
+                    : 'text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                {t('tabs.configuration')}
+              </button>
+            )}
           </nav>
           
-          <LanguageSwitcher />
+          <div className="flex items-center space-x-4">
+            <ProfileSwitcher canEdit={canAdmin} />
+            <LanguageSwitcher />
+            <div className="flex items-center space-x-2 text-sm text-gray-600">
+              <span title={user.roles.join(', ')}>{user.displayName || user.username}</span>
+              <button onClick={onLogout} className="px-2 py-1 text-sm text-gray-600 hover:text-gray-800">
+                {t('auth.logout')}
+              </button>
+            </div>
+          </div>
         </div>
         
         {activeTab === 'books' && (
           <div>
             <button
-              onClick={loadBooks}
+              onClick={loadSourceBooksTab}
               className="w-full py-3 px-4 text-white bg-blue-600 hover:bg-blue-700 font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 mb-6"
               disabled={loading}
             >
@@ -1395,8 +2568,12 @@ function App() {
                     onSyncStatusChange={setSyncStatus}
                     viewMode={viewMode}
                     onViewModeChange={handleViewModeChange}
+                    tag={tagFilter}
+                    onTagChange={setTagFilter}
+                    tagFacets={sourceTagFacets}
                     totalBooks={filteredBooks.length}
                     inDestinationCount={inDestinationCount}
+                    staleCount={staleCount}
                     syncingCount={syncingCount}
                     notSyncedCount={notSyncedCount}
                   />
@@ -1416,17 +2593,75 @@ function App() {
                       </span>
                     </div>
                     
-                    <button
-                      onClick={handleSync}
-                      disabled={selectedBookIds.length === 0 || loading}
-                      className={`py-2 px-4 font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 ${
-                        selectedBookIds.length === 0 || loading
-                          ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
-                          : 'bg-blue-600 text-white hover:bg-blue-700 focus:ring-blue-500'
-                      }`}
-                    >
-                      {loading ? t('app.loading') : t('buttons.syncSelected')}
-                    </button>
+                    {canSync && (
+                      <div className="flex space-x-3">
+                        {destinations.length > 1 && (
+                          <div className="flex items-center space-x-3 text-sm" title={t('tooltips.syncDestinations')}>
+                            {destinations.map(destination => (
+                              <label key={destination.id} className="flex items-center">
+                                <input
+                                  type="checkbox"
+                                  checked={targetDestinationIds.includes(destination.id)}
+                                  onChange={() => toggleTargetDestination(destination.id)}
+                                  disabled={loading || (syncMode === 'two-way' && destination.id !== PRIMARY_DESTINATION_ID)}
+                                  className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                                />
+                                <span className="ml-1">{destination.name || destination.baseUrl}</span>
+                              </label>
+                            ))}
+                          </div>
+                        )}
+                        <select
+                          value={syncMode}
+                          onChange={(e) => setSyncMode(e.target.value as SyncMode)}
+                          disabled={loading}
+                          className="bg-white border border-gray-300 text-gray-700 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 p-2"
+                          title={t('tooltips.syncMode')}
+                        >
+                          <option value="full">{t('syncMode.full')}</option>
+                          <option value="delta">{t('syncMode.delta')}</option>
+                          <option value="two-way">{t('syncMode.twoWay')}</option>
+                        </select>
+                        <button
+                          onClick={handlePreview}
+                          disabled={selectedBookIds.length === 0 || loading}
+                          className={`py-2 px-4 font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 ${
+                            selectedBookIds.length === 0 || loading
+                              ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                              : 'bg-white text-blue-600 border border-blue-600 hover:bg-blue-50 focus:ring-blue-500'
+                          }`}
+                        >
+                          {t('buttons.preview')}
+                        </button>
+                        {batchController && (
+                          <>
+                            <button
+                              onClick={togglePauseBatch}
+                              className="py-2 px-4 bg-yellow-500 text-white hover:bg-yellow-600 font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-yellow-500"
+                            >
+                              {batchPaused ? t('buttons.resume') : t('buttons.pause')}
+                            </button>
+                            <button
+                              onClick={cancelBatch}
+                              className="py-2 px-4 bg-red-600 text-white hover:bg-red-700 font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                            >
+                              {t('buttons.cancelSync')}
+                            </button>
+                          </>
+                        )}
+                        <button
+                          onClick={() => handleSync()}
+                          disabled={selectedBookIds.length === 0 || loading}
+                          className={`py-2 px-4 font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 ${
+                            selectedBookIds.length === 0 || loading
+                              ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                              : 'bg-blue-600 text-white hover:bg-blue-700 focus:ring-blue-500'
+                          }`}
+                        >
+                          {loading ? t('app.loading') : t('buttons.syncSelected')}
+                        </button>
+                      </div>
+                    )}
                   </div>
                   
                   <div className="min-h-[400px]">
@@ -1439,6 +2674,10 @@ function App() {
                         syncProgress={syncProgress}
                         destinationBooks={destinationBooks}
                         isBookInDestination={isBookInDestination}
+                        isBookStale={isBookStale}
+                        contentSelections={contentSelections}
+                        onPickContents={canSync ? setBookToPick : undefined}
+                        getDestinationStatuses={destinations.length > 1 ? getDestinationStatuses : undefined}
                       />
                     ) : (
                       <BookList
@@ -1449,6 +2688,10 @@ function App() {
                         syncProgress={syncProgress}
                         destinationBooks={destinationBooks}
                         isBookInDestination={isBookInDestination}
+                        isBookStale={isBookStale}
+                        contentSelections={contentSelections}
+                        onPickContents={canSync ? setBookToPick : undefined}
+                        getDestinationStatuses={destinations.length > 1 ? getDestinationStatuses : undefined}
                       />
                     )}
                   </div>
@@ -1513,6 +2756,9 @@ function App() {
                     onSyncStatusChange={setSyncStatus}
                     viewMode={viewMode}
                     onViewModeChange={handleViewModeChange}
+                    tag={tagFilter}
+                    onTagChange={setTagFilter}
+                    tagFacets={destinationTagFacets}
                     totalBooks={filteredDestinationBooks.length}
                   />
                   
@@ -1532,23 +2778,37 @@ function App() {
                     </div>
                     
                     <div className="flex space-x-3">
-                      <button
-                        onClick={handleDeleteMultipleBooks}
-                        disabled={selectedDestinationBookIds.length === 0 || loading}
-                        className={`py-2 px-4 font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 ${
-                          selectedDestinationBookIds.length === 0 || loading
-                            ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
-                            : 'bg-red-600 text-white hover:bg-red-700 focus:ring-red-500'
-                        }`}
-                      >
-                        {t('buttons.deleteSelected')}
-                      </button>
-                      <button
-                        onClick={() => setShowDestroyConfirm(true)}
-                        className="py-2 px-4 bg-red-600 text-white hover:bg-red-700 font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
-                      >
-                        {t('buttons.destroyAll')}
-                      </button>
+                      {canSync && (
+                        <button
+                          onClick={handleRewriteLinks}
+                          disabled={loading}
+                          title={t('buttons.rewriteLinksTooltip')}
+                          className="py-2 px-4 bg-white text-blue-600 border border-blue-600 hover:bg-blue-50 font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+                        >
+                          {t('buttons.rewriteLinks')}
+                        </button>
+                      )}
+                      {canAdmin && (
+                        <>
+                          <button
+                            onClick={handleDeleteMultipleBooks}
+                            disabled={selectedDestinationBookIds.length === 0 || loading}
+                            className={`py-2 px-4 font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 ${
+                              selectedDestinationBookIds.length === 0 || loading
+                                ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                                : 'bg-red-600 text-white hover:bg-red-700 focus:ring-red-500'
+                            }`}
+                          >
+                            {t('buttons.deleteSelected')}
+                          </button>
+                          <button
+                            onClick={() => setShowDestroyConfirm(true)}
+                            className="py-2 px-4 bg-red-600 text-white hover:bg-red-700 font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                          >
+                            {t('buttons.destroyAll')}
+                          </button>
+                        </>
+                      )}
                     </div>
                   </div>
                   
@@ -1559,9 +2819,9 @@ function App() {
                         selectedBookIds={selectedDestinationBookIds}
                         onSelect={handleDestinationBookSelection}
                         onDetails={setActiveBook}
-                        syncProgress={syncProgress}
+                        syncProgress={deleteStatus}
                         destinationBooks={destinationBooks}
-                        isBookInDestination={isBookInDestination}
+                        isBookInDestination={book => !deleteStatus[book.id]}
                       />
                     ) : (
                       <BookList
@@ -1569,9 +2829,9 @@ function App() {
                         selectedBookIds={selectedDestinationBookIds}
                         onSelect={handleDestinationBookSelection}
                         onDetails={setActiveBook}
-                        syncProgress={syncProgress}
+                        syncProgress={deleteStatus}
                         destinationBooks={destinationBooks}
-                        isBookInDestination={isBookInDestination}
+                        isBookInDestination={book => !deleteStatus[book.id]}
                       />
                     )}
                   </div>
@@ -1602,10 +2862,37 @@ function App() {
                 </div>
               )}
             </div>
+            
+            <SnapshotsPanel
+              canManage={canAdmin}
+              refreshKey={snapshotRefreshKey}
+              onRestored={handleSnapshotRestored}
+            />
           </div>
         )}
 
-        {activeTab === 'config' && (
+        {activeTab === 'shelves' && (
+          <ShelvesPanel
+            canSync={canSync}
+            busy={loading}
+            isInDestination={bookId => {
+              const book = books.find(b => b.id === bookId)
+              return !!book && isBookInDestination(book)
+            }}
+            syncProgress={syncProgress}
+            onSync={handleSyncShelf}
+          />
+        )}
+
+        {activeTab === 'schedules' && canSync && (
+          <SchedulesPanel books={books} />
+        )}
+
+        {activeTab === 'history' && (
+          <HistoryPanel />
+        )}
+
+        {activeTab === 'config' && canAdmin && (
           <div className="min-h-[600px]">
             <ConfigForm />
           </div>
@@ -1614,13 +2901,46 @@ function App() {
 
       {/* Modals - positioned outside the main container for proper z-index layering */}
       {activeBook && (
-        <DescriptionModal book={activeBook} onClose={() => setActiveBook(null)} />
+        <DescriptionModal
+          book={activeBook}
+          reports={activeTab === 'books' ? activeBookReports : undefined}
+          onClose={() => setActiveBook(null)}
+        />
+      )}
+      
+      {showVaultUnlock && (
+        <VaultUnlockModal onClose={() => setShowVaultUnlock(false)} />
+      )}
+      
+      {bookToPick && (
+        <BookContentPicker
+          book={bookToPick}
+          selection={contentSelections[bookToPick.id]}
+          onApply={handleContentSelection}
+          onClose={() => setBookToPick(null)}
+        />
+      )}
+      
+      {syncPlans && (
+        <SyncPreviewModal
+          plans={syncPlans}
+          onConfirm={confirmSyncPlan}
+          onCancel={() => setSyncPlans(null)}
+        />
+      )}
+      
+      {syncConflicts.length > 0 && (
+        <ConflictResolverModal
+          conflicts={syncConflicts}
+          onResolve={handleResolveConflicts}
+          onCancel={cancelConflictResolution}
+        />
       )}
       
       {bookToDelete && (
         <ConfirmationModal
           title={t('modals.confirmDelete')}
-          message={t('modals.confirmDeleteMessage', { name: bookToDelete.name })}
+          message={`${t('modals.confirmDeleteMessage', { name: bookToDelete.name })}${primaryOnlyNote}`}
           onConfirm={confirmDeleteBook}
           onCancel={cancelDeleteBook}
         />
@@ -1629,7 +2949,7 @@ function App() {
       {showDestroyConfirm && (
         <ConfirmationModal
           title={t('modals.confirmDestroyAll')}
-          message={t('modals.confirmDestroyMessage')}
+          message={`${t('modals.confirmDestroyMessage')}${primaryOnlyNote}`}
           onConfirm={handleDestroy}
           onCancel={() => setShowDestroyConfirm(false)}
         />
@@ -0,0 +1,87 @@
+import { ReactNode, useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import AuthApi, { AUTH_EXPIRED_EVENT, AuthUser } from '../services/authApi';
+import { LoginPage } from './LoginPage';
+
+// Create a single instance of the auth API
+const authApi = new AuthApi();
+
+// Shows the login page until the user is logged in, then renders the app for that user
+export function AuthGate({ children }: { children: (user: AuthUser, onLogout: () => void) => ReactNode }) {
+  const { t } = useTranslation();
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [checked, setChecked] = useState(false);
+  // Set when the backend could not be asked; the user stays logged in until it answers 401
+  const [checkError, setCheckError] = useState<string | null>(null);
+
+  const checkLogin = async () => {
+    try {
+      setUser(await authApi.getCurrentUser());
+      setCheckError(null);
+    } catch (err) {
+      setCheckError(err instanceof Error ? err.message : 'Failed to check the login');
+    } finally {
+      setChecked(true);
+    }
+  };
+
+  useEffect(() => {
+    checkLogin();
+
+    // A 401 from the API may mean the login session ran out
+    window.addEventListener(AUTH_EXPIRED_EVENT, checkLogin);
+    return () => {
+      window.removeEventListener(AUTH_EXPIRED_EVENT, checkLogin);
+    };
+  }, []);
+
+  const logout = async () => {
+    try {
+      await authApi.logout();
+    } finally {
+      setUser(null);
+      setCheckError(null);
+    }
+  };
+
+  if (!checked) {
+    return null;
+  }
+
+  const retryButton = (
+    <button
+      onClick={checkLogin}
+      className="ml-2 font-medium underline hover:text-red-900 focus:outline-none"
+    >
+      {t('buttons.retry')}
+    </button>
+  );
+
+  // Without an answer it is unknown whether the user is logged in, so offer to ask again rather than a login
+  if (!user && checkError) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+        <div className="p-4 rounded-md bg-red-100 text-red-800 text-sm">
+          {t('auth.checkFailed', { error: checkError })}
+          {retryButton}
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <LoginPage onLogin={setUser} />;
+  }
+
+  return (
+    <>
+      {checkError && (
+        <div className="p-3 bg-red-100 text-red-800 text-sm text-center">
+          {t('auth.checkFailed', { error: checkError })}
+          {retryButton}
+        </div>
+      )}
+      {children(user, logout)}
+    </>
+  );
+}
@@ -0,0 +1,183 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Book, BookContentItem } from '../services/bookstackApi';
+import SpringBootApi, { SyncSelection } from '../services/springBootApi';
+
+// Create a single instance of the Spring Boot API
+const springBootApi = new SpringBootApi();
+
+// Modal with a chapter/page tree for syncing part of a book
+export function BookContentPicker({
+  book,
+  selection,
+  onApply,
+  onClose
+}: {
+  book: Book,
+  selection?: SyncSelection,
+  onApply: (selection: SyncSelection | null) => void,
+  onClose: () => void
+}) {
+  const { t } = useTranslation();
+  const [contents, setContents] = useState<BookContentItem[]>(book.contents || []);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [chapterIds, setChapterIds] = useState<number[]>(selection?.chapterIds || []);
+  const [pageIds, setPageIds] = useState<number[]>(selection?.pageIds || []);
+
+  // The book list endpoint does not include contents, so fetch the full book
+  useEffect(() => {
+    const loadContents = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const fullBook = await springBootApi.getBook(book.id);
+        setContents(fullBook.contents || []);
+      } catch (err) {
+        setError('Failed to load book contents. Please check the Spring Boot API.');
+        console.error(err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadContents();
+  }, [book.id]);
+
+  // Add keyboard event listener for ESC key
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  const chapterPageIds = (chapter: BookContentItem): number[] => {
+    return (chapter.pages || []).map(page => page.id);
+  };
+
+  // Ticking a chapter selects it as a whole, which covers all of its pages
+  const toggleChapter = (chapter: BookContentItem) => {
+    const pages = chapterPageIds(chapter);
+
+    if (chapterIds.includes(chapter.id)) {
+      setChapterIds(prev => prev.filter(id => id !== chapter.id));
+    } else {
+      setChapterIds(prev => [...prev, chapter.id]);
+    }
+    setPageIds(prev => prev.filter(id => !pages.includes(id)));
+  };
+
+  // Unticking a page of a whole chapter keeps the chapter's other pages selected
+  const togglePage = (pageId: number, chapter?: BookContentItem) => {
+    if (chapter && chapterIds.includes(chapter.id)) {
+      setChapterIds(prev => prev.filter(id => id !== chapter.id));
+      setPageIds(prev => [...prev, ...chapterPageIds(chapter).filter(id => id !== pageId)]);
+    } else if (pageIds.includes(pageId)) {
+      setPageIds(prev => prev.filter(id => id !== pageId));
+    } else {
+      setPageIds(prev => [...prev, pageId]);
+    }
+  };
+
+  const handleApply = () => {
+    onApply(chapterIds.length + pageIds.length > 0 ? { chapterIds, pageIds } : null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[80vh] overflow-hidden flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 flex justify-between items-center">
+          <h3 className="text-lg font-semibold text-left">{t('contentPicker.title', { name: book.name })}</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 focus:outline-none"
+          >
+            <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+              <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+            </svg>
+          </button>
+        </div>
+        <div className="p-4 overflow-y-auto text-left">
+          {loading && (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+            </div>
+          )}
+          {error && <p className="text-red-800">{error}</p>}
+          {!loading && !error && contents.length === 0 && (
+            <p className="text-gray-500">{t('contentPicker.empty')}</p>
+          )}
+          {!loading && !error && (
+            <ul className="space-y-1">
+              {contents.map(item => (
+                <li key={`${item.type}-${item.id}`}>
+                  {item.type === 'chapter' ? (
+                    <div>
+                      <label className="flex items-center font-medium">
+                        <input
+                          type="checkbox"
+                          checked={chapterIds.includes(item.id)}
+                          onChange={() => toggleChapter(item)}
+                          className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                        />
+                        <span className="ml-2">{item.name}</span>
+                      </label>
+                      <ul className="ml-6 mt-1 space-y-1">
+                        {(item.pages || []).map(page => (
+                          <li key={page.id}>
+                            <label className="flex items-center text-sm">
+                              <input
+                                type="checkbox"
+                                checked={chapterIds.includes(item.id) || pageIds.includes(page.id)}
+                                onChange={() => togglePage(page.id, item)}
+                                className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                              />
+                              <span className="ml-2">{page.name}</span>
+                            </label>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ) : (
+                    <label className="flex items-center text-sm">
+                      <input
+                        type="checkbox"
+                        checked={pageIds.includes(item.id)}
+                        onChange={() => togglePage(item.id)}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      />
+                      <span className="ml-2">{item.name}</span>
+                    </label>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <div className="p-4 border-t border-gray-200 flex space-x-3 justify-end">
+          <button
+            onClick={() => onApply(null)}
+            className="py-2 px-4 bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+          >
+            {t('contentPicker.wholeBook')}
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={loading}
+            className="py-2 px-4 bg-indigo-600 hover:bg-indigo-700 text-white font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            {t('contentPicker.apply')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
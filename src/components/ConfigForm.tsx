@@ -1,5 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import SpringBootApi from '../services/springBootApi';
+import { DEFAULT_RETRY_POLICY } from '../services/retryPolicy';
+import { DEFAULT_WORKER_POOL_SETTINGS, MAX_CONCURRENCY, MIN_CONCURRENCY } from '../services/workerPool';
+import { SyncDestination } from '../services/destinations';
+import { MIN_PASSPHRASE_LENGTH, isVaultEnabled, isVaultUnlocked } from '../services/credentialVault';
+import { TagRules, normalizeTagRules } from '../services/tagRules';
+import { createId } from '../services/ids';
 import { useTranslation } from 'react-i18next';
 
 // Create a single instance of the Spring Boot API
@@ -12,23 +18,48 @@ export interface BookStackConfigDTO {
   destinationBaseUrl: string;
   destinationTokenId: string;
   destinationTokenSecret: string;
+  // Further destinations a sync can fan out to, next to the primary one above
+  extraDestinations?: SyncDestination[];
+  // Retries for rate limiting, gateway errors and timeouts; defaults apply when unset
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  // Books synced or deleted at the same time, and the shared start rate limit
+  syncConcurrency?: number;
+  rateLimitPerMinute?: number;
+  // Snapshot destination copies before a sync overwrites them; deletes and destroy always take one
+  snapshotBeforeSync?: boolean;
+  // Copy page attachments and gallery images along with the pages; both default to on
+  syncAttachments?: boolean;
+  syncImages?: boolean;
+  // Which books are synced and which tags stay behind, by tag
+  tagRules?: TagRules;
 }
 
+// Numeric settings edited through number inputs
+type NumericConfigField = 'maxRetries' | 'retryBaseDelayMs' | 'syncConcurrency' | 'rateLimitPerMinute';
+
+// Shown for a profile that has not been configured yet
+const EMPTY_CONFIG: BookStackConfigDTO = {
+  sourceBaseUrl: '',
+  sourceTokenId: '',
+  sourceTokenSecret: '',
+  destinationBaseUrl: '',
+  destinationTokenId: '',
+  destinationTokenSecret: '',
+};
+
 // Custom event for config updates
 export const CONFIG_UPDATED_EVENT = 'configUpdated';
 
 export function ConfigForm() {
   const { t } = useTranslation();
-  const [config, setConfig] = useState<BookStackConfigDTO>({
-    sourceBaseUrl: '',
-    sourceTokenId: '',
-    sourceTokenSecret: '',
-    destinationBaseUrl: '',
-    destinationTokenId: '',
-    destinationTokenSecret: '',
-  });
+  const [config, setConfig] = useState<BookStackConfigDTO>(EMPTY_CONFIG);
+  const [profileName, setProfileName] = useState('');
   const [isSaving, setIsSaving] = useState(false);
   const [isVerifying, setIsVerifying] = useState(false);
+  const [vaultEnabled, setVaultEnabled] = useState(isVaultEnabled());
+  const [vaultPassphrase, setVaultPassphrase] = useState('');
+  const [vaultPassphraseConfirm, setVaultPassphraseConfirm] = useState('');
   const [message, setMessage] = useState<{ type: 'success' | 'error' | null; text: string }>({
     type: null,
     text: '',
@@ -36,14 +67,19 @@ export function ConfigForm() {
 
   useEffect(() => {
     loadSavedConfig();
+    
+    // Show the newly selected profile when the header switcher changes it
+    window.addEventListener(CONFIG_UPDATED_EVENT, loadSavedConfig);
+    return () => {
+      window.removeEventListener(CONFIG_UPDATED_EVENT, loadSavedConfig);
+    };
   }, []);
 
   const loadSavedConfig = async () => {
     try {
-      const savedConfig = await springBootApi.getConfig();
-      if (savedConfig) {
-        setConfig(savedConfig);
-      }
+      const profile = await springBootApi.getActiveProfile();
+      setProfileName(profile.name);
+      setConfig(profile.config || EMPTY_CONFIG);
     } catch (error) {
       console.error('Error loading saved config:', error);
     }
@@ -53,12 +89,44 @@ export function ConfigForm() {
     setConfig(prev => ({ ...prev, [field]: value }));
   };
 
+  const addDestination = () => {
+    const destination: SyncDestination = {
+      id: createId(),
+      name: '',
+      baseUrl: '',
+      tokenId: '',
+      tokenSecret: '',
+    };
+    setConfig(prev => ({ ...prev, extraDestinations: [...(prev.extraDestinations || []), destination] }));
+  };
+
+  const handleDestinationChange = (id: string, field: keyof Omit<SyncDestination, 'id'>, value: string) => {
+    setConfig(prev => ({
+      ...prev,
+      extraDestinations: (prev.extraDestinations || []).map(d => d.id === id ? { ...d, [field]: value } : d),
+    }));
+  };
+
+  const removeDestination = (id: string) => {
+    setConfig(prev => ({ ...prev, extraDestinations: (prev.extraDestinations || []).filter(d => d.id !== id) }));
+  };
+
+  // Rules are edited one per line; blank lines are dropped on save
+  const handleTagRulesChange = (field: keyof TagRules, value: string) => {
+    setConfig(prev => ({ ...prev, tagRules: { ...normalizeTagRules(), ...prev.tagRules, [field]: value.split('\n') } }));
+  };
+
+  // An empty input clears the setting so the default is used
+  const handleNumberChange = (field: NumericConfigField, value: string) => {
+    setConfig(prev => ({ ...prev, [field]: value === '' ? undefined : Math.max(0, parseInt(value, 10) || 0) }));
+  };
+
   const saveConfig = async () => {
     setIsSaving(true);
     setMessage({ type: null, text: '' });
     
     try {
-      await springBootApi.saveConfig(config);
+      await springBootApi.saveConfig({ ...config, tagRules: normalizeTagRules(config.tagRules) });
       
       // Dispatch a custom event to notify other components that config has been updated
       window.dispatchEvent(new CustomEvent(CONFIG_UPDATED_EVENT));
@@ -77,6 +145,35 @@ export function ConfigForm() {
     }
   };
 
+  // Encrypt the saved profiles with a passphrase so they survive closing the tab
+  const enableVault = async () => {
+    if (vaultPassphrase !== vaultPassphraseConfirm) {
+      setMessage({ type: 'error', text: 'Passphrases do not match' });
+      return;
+    }
+    
+    try {
+      await springBootApi.enableVault(vaultPassphrase);
+      setVaultEnabled(true);
+      setVaultPassphrase('');
+      setVaultPassphraseConfirm('');
+      setMessage({ type: 'success', text: 'Credentials saved to the encrypted vault' });
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to create the vault',
+      });
+    }
+  };
+
+  const disableVault = () => {
+    if (!window.confirm(t('vault.confirmDisable'))) return;
+    
+    springBootApi.disableVault();
+    setVaultEnabled(false);
+    setMessage({ type: 'success', text: 'Vault deleted; credentials are kept for this session only' });
+  };
+
   const verifyCredentials = async () => {
     setIsVerifying(true);
     setMessage({ type: null, text: '' });
@@ -104,14 +201,16 @@ export function ConfigForm() {
 
   return (
     <div className="bg-white shadow-md rounded-lg p-6 max-w-4xl mx-auto">
-      <h2 className="text-2xl font-bold mb-6 text-center text-gray-800">{t('configuration.title')}</h2>
+      <h2 className="text-2xl font-bold mb-2 text-center text-gray-800">{t('configuration.title')}</h2>
+      <p className="mb-6 text-center text-gray-500">{t('profiles.editing', { name: profileName })}</p>
       
       <div className="mb-6 p-4 bg-blue-50 text-blue-700 rounded-md">
         <p className="text-sm">
-          <strong>Note:</strong> This configuration will be used for all API operations. The values will be stored temporarily in your browser's session storage and sent as headers with each API request.
+          <strong>Note:</strong> This configuration will be used for all API operations. The values will be stored temporarily in your browser's session storage and sent once to the backend, which hands back a short-lived session id used for later requests.
         </p>
         <p className="text-sm mt-2">
-          For security reasons, credentials are not permanently stored and will be lost when you close the browser tab.
+          For security reasons, credentials are not permanently stored and will be lost when you close the browser tab,
+          unless you save them to the encrypted vault below.
         </p>
       </div>
       
@@ -197,6 +296,224 @@ export function ConfigForm() {
         </div>
       </div>
       
+      <div className="mt-6 space-y-4">
+        <div className="flex justify-between items-center border-b pb-2">
+          <h3 className="text-lg font-semibold text-gray-700">{t('configuration.extraDestinations')}</h3>
+          <button
+            onClick={addDestination}
+            className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+          >
+            {t('configuration.addDestination')}
+          </button>
+        </div>
+        {(config.extraDestinations || []).length === 0 && (
+          <p className="text-sm text-gray-500">{t('configuration.noExtraDestinations')}</p>
+        )}
+        {(config.extraDestinations || []).map(destination => (
+          <div key={destination.id} className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('configuration.destinationName')}</label>
+              <input
+                type="text"
+                value={destination.name}
+                onChange={(e) => handleDestinationChange(destination.id, 'name', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                placeholder="Customer wiki"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('configuration.destinationUrl')}</label>
+              <input
+                type="text"
+                value={destination.baseUrl}
+                onChange={(e) => handleDestinationChange(destination.id, 'baseUrl', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                placeholder="https://mirror.example.com"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('configuration.destinationApiToken')}</label>
+              <input
+                type="text"
+                value={destination.tokenId}
+                onChange={(e) => handleDestinationChange(destination.id, 'tokenId', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                placeholder="Enter API token ID"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('configuration.destinationToken')}</label>
+              <input
+                type="password"
+                value={destination.tokenSecret}
+                onChange={(e) => handleDestinationChange(destination.id, 'tokenSecret', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                placeholder="Enter API token"
+              />
+            </div>
+            <button
+              onClick={() => removeDestination(destination.id)}
+              className="px-3 py-2 text-sm text-red-600 hover:text-red-800"
+            >
+              {t('buttons.remove')}
+            </button>
+          </div>
+        ))}
+      </div>
+      
+      <div className="mt-6 space-y-4">
+        <h3 className="text-lg font-semibold text-gray-700 border-b pb-2">{t('configuration.syncSettings')}</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('configuration.maxRetries')}</label>
+            <input
+              type="number"
+              min={0}
+              max={10}
+              value={config.maxRetries ?? ''}
+              onChange={(e) => handleNumberChange('maxRetries', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              placeholder={String(DEFAULT_RETRY_POLICY.maxRetries)}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('configuration.retryBaseDelay')}</label>
+            <input
+              type="number"
+              min={0}
+              step={100}
+              value={config.retryBaseDelayMs ?? ''}
+              onChange={(e) => handleNumberChange('retryBaseDelayMs', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              placeholder={String(DEFAULT_RETRY_POLICY.baseDelayMs)}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('configuration.syncConcurrency')}</label>
+            <input
+              type="number"
+              min={MIN_CONCURRENCY}
+              max={MAX_CONCURRENCY}
+              value={config.syncConcurrency ?? ''}
+              onChange={(e) => handleNumberChange('syncConcurrency', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              placeholder={String(DEFAULT_WORKER_POOL_SETTINGS.concurrency)}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('configuration.rateLimitPerMinute')}</label>
+            <input
+              type="number"
+              min={0}
+              value={config.rateLimitPerMinute ?? ''}
+              onChange={(e) => handleNumberChange('rateLimitPerMinute', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              placeholder={String(DEFAULT_WORKER_POOL_SETTINGS.rateLimitPerMinute)}
+            />
+          </div>
+        </div>
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={!!config.snapshotBeforeSync}
+            onChange={(e) => setConfig(prev => ({ ...prev, snapshotBeforeSync: e.target.checked }))}
+            className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          />
+          <span className="ml-2">{t('configuration.snapshotBeforeSync')}</span>
+        </label>
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={config.syncAttachments !== false}
+            onChange={(e) => setConfig(prev => ({ ...prev, syncAttachments: e.target.checked }))}
+            className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          />
+          <span className="ml-2">{t('configuration.syncAttachments')}</span>
+        </label>
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={config.syncImages !== false}
+            onChange={(e) => setConfig(prev => ({ ...prev, syncImages: e.target.checked }))}
+            className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          />
+          <span className="ml-2">{t('configuration.syncImages')}</span>
+        </label>
+      </div>
+      
+      <div className="mt-6 space-y-4">
+        <h3 className="text-lg font-semibold text-gray-700 border-b pb-2">{t('configuration.tagRules')}</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('configuration.includeTags')}</label>
+            <textarea
+              rows={3}
+              value={(config.tagRules?.include || []).join('\n')}
+              onChange={(e) => handleTagRulesChange('include', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 font-mono text-sm"
+              placeholder="visibility=public"
+            />
+            <p className="mt-1 text-xs text-gray-500">{t('configuration.includeTagsHelp')}</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('configuration.stripTags')}</label>
+            <textarea
+              rows={3}
+              value={(config.tagRules?.strip || []).join('\n')}
+              onChange={(e) => handleTagRulesChange('strip', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 font-mono text-sm"
+              placeholder="internal_*"
+            />
+            <p className="mt-1 text-xs text-gray-500">{t('configuration.stripTagsHelp')}</p>
+          </div>
+        </div>
+      </div>
+      
+      <div className="mt-6 space-y-4">
+        <h3 className="text-lg font-semibold text-gray-700 border-b pb-2">{t('vault.title')}</h3>
+        {vaultEnabled ? (
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <p className="text-sm text-gray-600">
+              {isVaultUnlocked() ? t('vault.unlockedStatus') : t('vault.lockedStatus')}
+            </p>
+            <button
+              onClick={disableVault}
+              className="px-4 py-2 text-sm bg-red-50 text-red-700 rounded-md hover:bg-red-100"
+            >
+              {t('vault.disable')}
+            </button>
+          </div>
+        ) : (
+          <div>
+            <p className="text-sm text-gray-600 mb-3">{t('vault.description', { minLength: MIN_PASSPHRASE_LENGTH })}</p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+              <input
+                type="password"
+                value={vaultPassphrase}
+                onChange={(e) => setVaultPassphrase(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                minLength={MIN_PASSPHRASE_LENGTH}
+                placeholder={t('vault.passphrase')}
+              />
+              <input
+                type="password"
+                value={vaultPassphraseConfirm}
+                onChange={(e) => setVaultPassphraseConfirm(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                placeholder={t('vault.confirmPassphrase')}
+              />
+              <button
+                onClick={enableVault}
+                disabled={vaultPassphrase.length < MIN_PASSPHRASE_LENGTH}
+                className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50"
+              >
+                {t('vault.enable')}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+      
       <div className="mt-8 flex flex-col sm:flex-row gap-4 justify-center">
         <button
           onClick={saveConfig}
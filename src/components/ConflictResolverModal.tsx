@@ -0,0 +1,128 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Page } from '../services/bookstackApi';
+import { ConflictChoice, ConflictResolution, SyncConflict } from '../services/springBootApi';
+
+const CHOICES: ConflictChoice[] = ['keep-source', 'keep-destination', 'keep-both'];
+
+// One side of a conflict; content is shown as source text, never rendered as HTML
+function ConflictVersion({ title, page }: { title: string, page: Page }) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="flex-1 min-w-0 border border-gray-200 rounded-md flex flex-col">
+      <div className="px-3 py-2 bg-gray-50 border-b border-gray-200 text-sm text-left">
+        <div className="font-medium">{title}</div>
+        <div className="text-xs text-gray-500">
+          {t('book.updated')} {new Date(page.updated_at).toLocaleString()} · {page.updated_by?.name}
+        </div>
+      </div>
+      <pre className="p-3 text-xs text-left whitespace-pre-wrap break-words overflow-y-auto max-h-64">
+        {page.markdown || page.html}
+      </pre>
+    </div>
+  );
+}
+
+// Modal listing pages changed on both sides, with a choice of which version to keep for each
+export function ConflictResolverModal({
+  conflicts,
+  onResolve,
+  onCancel
+}: {
+  conflicts: SyncConflict[],
+  onResolve: (resolutions: {[key: number]: ConflictResolution[]}) => void,
+  onCancel: () => void
+}) {
+  const { t } = useTranslation();
+  const [choices, setChoices] = useState<{[key: number]: ConflictChoice}>({});
+
+  // Add keyboard event listener for ESC key
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onCancel();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onCancel]);
+
+  const allResolved = conflicts.every((_, index) => choices[index]);
+
+  // Group the chosen resolutions by source book
+  const handleApply = () => {
+    const resolutions = conflicts.reduce((acc, conflict, index) => {
+      acc[conflict.bookId] = [...(acc[conflict.bookId] || []), {
+        sourcePageId: conflict.sourcePage.id,
+        destinationPageId: conflict.destinationPage.id,
+        choice: choices[index]
+      }];
+      return acc;
+    }, {} as {[key: number]: ConflictResolution[]});
+
+    onResolve(resolutions);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onCancel}>
+      <div className="bg-white rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] overflow-hidden flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 flex justify-between items-center">
+          <h3 className="text-lg font-semibold text-left">{t('conflicts.title', { count: conflicts.length })}</h3>
+          <button
+            onClick={onCancel}
+            className="text-gray-500 hover:text-gray-700 focus:outline-none"
+          >
+            <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+              <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+            </svg>
+          </button>
+        </div>
+        <div className="p-4 overflow-y-auto space-y-6">
+          {conflicts.map((conflict, index) => (
+            <div key={`${conflict.sourcePage.id}-${conflict.destinationPage.id}`}>
+              <h4 className="font-medium text-left mb-2">{conflict.sourcePage.name}</h4>
+              <div className="flex flex-col md:flex-row gap-3">
+                <ConflictVersion title={t('conflicts.source')} page={conflict.sourcePage} />
+                <ConflictVersion title={t('conflicts.destination')} page={conflict.destinationPage} />
+              </div>
+              <div className="flex flex-wrap gap-4 mt-2">
+                {CHOICES.map(choice => (
+                  <label key={choice} className="flex items-center text-sm">
+                    <input
+                      type="radio"
+                      name={`conflict-${index}`}
+                      checked={choices[index] === choice}
+                      onChange={() => setChoices(prev => ({ ...prev, [index]: choice }))}
+                      className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+                    />
+                    <span className="ml-2">{t(`conflicts.choices.${choice}`)}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="p-4 border-t border-gray-200 flex space-x-3 justify-end">
+          <button
+            onClick={onCancel}
+            className="py-2 px-4 bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+          >
+            {t('buttons.cancel')}
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!allResolved}
+            className="py-2 px-4 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            {t('conflicts.apply')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import SpringBootApi, { AuditAction, AuditEntry, AuditFilter, AuditItemResult } from '../services/springBootApi';
+
+// Create a single instance of the Spring Boot API
+const springBootApi = new SpringBootApi();
+
+// Typing in the user and profile filters reloads once the user pauses
+const FILTER_DELAY = 400;
+
+const CSV_COLUMNS = ['timestamp', 'user', 'profile', 'action', 'mode', 'bookId', 'bookName', 'destinationId', 'result', 'error'];
+
+// Quote a CSV field when it contains a separator, quote or line break. Text a spreadsheet would
+// run as a formula, e.g. a book named "=HYPERLINK(...)", gets a leading apostrophe.
+function toCsvField(value: string | number | undefined): string {
+  let text = value === undefined ? '' : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per book so the export can be filtered and summed in a spreadsheet
+function toCsv(entries: AuditEntry[]): string {
+  const rows = entries.flatMap(entry => entry.items.map(item => [
+    entry.timestamp, entry.user, entry.profile, entry.action, entry.mode,
+    item.bookId, item.bookName, item.destinationId, item.result, item.error
+  ]));
+  return [CSV_COLUMNS, ...rows].map(row => row.map(toCsvField).join(',')).join('\r\n');
+}
+
+function download(content: string, fileName: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function resultClass(result: AuditItemResult): string {
+  switch (result) {
+    case 'succeeded':
+      return 'bg-green-100 text-green-800';
+    case 'failed':
+      return 'bg-red-100 text-red-800';
+    default:
+      return 'bg-yellow-100 text-yellow-800';
+  }
+}
+
+// Tab listing the audit log of syncs, deletes and destroys, with filters and export
+export function HistoryPanel() {
+  const { t } = useTranslation();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedIds, setExpandedIds] = useState<string[]>([]);
+
+  // Sent to the server, while the book search narrows the loaded entries
+  const [filter, setFilter] = useState<AuditFilter>({});
+  const [bookQuery, setBookQuery] = useState('');
+  const [userQuery, setUserQuery] = useState('');
+  const [profileQuery, setProfileQuery] = useState('');
+
+  // Only the latest request may update the list, as an older one can answer last
+  const requestCount = useRef(0);
+
+  useEffect(() => {
+    loadEntries();
+  }, [filter]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      updateFilter({ user: userQuery.trim() || undefined, profile: profileQuery.trim() || undefined });
+    }, FILTER_DELAY);
+    return () => clearTimeout(timer);
+  }, [userQuery, profileQuery]);
+
+  const loadEntries = async () => {
+    const request = ++requestCount.current;
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await springBootApi.listAuditEntries(filter);
+      if (request === requestCount.current) {
+        setEntries(result);
+      }
+    } catch (err) {
+      if (request === requestCount.current) {
+        setError(err instanceof Error ? err.message : 'Failed to load the audit log');
+      }
+    } finally {
+      if (request === requestCount.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  const updateFilter = (changes: Partial<AuditFilter>) => {
+    // Keep the same object when nothing changed, so the debounced filters do not reload on mount
+    setFilter(prev => Object.entries(changes).every(([key, value]) => prev[key as keyof AuditFilter] === value)
+      ? prev
+      : { ...prev, ...changes });
+  };
+
+  const visibleEntries = useMemo(() => {
+    const query = bookQuery.trim().toLowerCase();
+    if (!query) return entries;
+
+    return entries
+      .map(entry => ({
+        ...entry,
+        items: entry.items.filter(item => item.bookName.toLowerCase().includes(query) || String(item.bookId) === query)
+      }))
+      .filter(entry => entry.items.length > 0);
+  }, [entries, bookQuery]);
+
+  const toggleExpanded = (entryId: string) => {
+    setExpandedIds(prev => prev.includes(entryId) ? prev.filter(id => id !== entryId) : [...prev, entryId]);
+  };
+
+  const exportFileName = (extension: string) => `bookstack-sync-audit-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold text-gray-800">{t('tabs.history')}</h2>
+        <div className="flex space-x-3">
+          <button
+            onClick={() => download(toCsv(visibleEntries), exportFileName('csv'), 'text/csv')}
+            disabled={visibleEntries.length === 0}
+            className="py-2 px-4 bg-white text-blue-600 border border-blue-600 hover:bg-blue-50 font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            {t('history.exportCsv')}
+          </button>
+          <button
+            onClick={() => download(JSON.stringify(visibleEntries, null, 2), exportFileName('json'), 'application/json')}
+            disabled={visibleEntries.length === 0}
+            className="py-2 px-4 bg-white text-blue-600 border border-blue-600 hover:bg-blue-50 font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            {t('history.exportJson')}
+          </button>
+          <button
+            onClick={loadEntries}
+            disabled={loading}
+            className="py-2 px-4 bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50"
+          >
+            {loading ? 'Loading...' : t('buttons.refresh')}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-6 gap-3 mb-4 text-sm">
+        <select
+          value={filter.action || ''}
+          onChange={(e) => updateFilter({ action: (e.target.value || undefined) as AuditAction | undefined })}
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">{t('history.allActions')}</option>
+          <option value="sync">{t('history.actions.sync')}</option>
+          <option value="delete">{t('history.actions.delete')}</option>
+          <option value="destroy">{t('history.actions.destroy')}</option>
+          <option value="restore">{t('history.actions.restore')}</option>
+          <option value="shelf">{t('history.actions.shelf')}</option>
+        </select>
+        <input
+          type="text"
+          value={userQuery}
+          onChange={(e) => setUserQuery(e.target.value)}
+          placeholder={t('history.user')}
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        />
+        <input
+          type="text"
+          value={profileQuery}
+          onChange={(e) => setProfileQuery(e.target.value)}
+          placeholder={t('history.profile')}
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        />
+        <input
+          type="date"
+          value={filter.from || ''}
+          onChange={(e) => updateFilter({ from: e.target.value || undefined })}
+          title={t('history.from')}
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        />
+        <input
+          type="date"
+          value={filter.to || ''}
+          onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+          title={t('history.to')}
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        />
+        <input
+          type="text"
+          value={bookQuery}
+          onChange={(e) => setBookQuery(e.target.value)}
+          placeholder={t('history.book')}
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        />
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 rounded-md bg-red-100 text-red-800">{error}</div>
+      )}
+
+      {visibleEntries.length === 0 ? (
+        <p className="text-gray-500 text-center py-6">{loading ? t('app.loading') : t('history.empty')}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm text-left">
+            <thead className="bg-gray-50 text-gray-600">
+              <tr>
+                <th className="px-3 py-2">{t('history.time')}</th>
+                <th className="px-3 py-2">{t('history.user')}</th>
+                <th className="px-3 py-2">{t('history.profile')}</th>
+                <th className="px-3 py-2">{t('history.action')}</th>
+                <th className="px-3 py-2">{t('history.result')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {visibleEntries.map(entry => {
+                const failed = entry.items.filter(item => item.result === 'failed').length;
+                const expanded = expandedIds.includes(entry.id);
+
+                return (
+                  <tr key={entry.id} className="align-top">
+                    <td className="px-3 py-2 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+                    <td className="px-3 py-2">{entry.user}</td>
+                    <td className="px-3 py-2">{entry.profile}</td>
+                    <td className="px-3 py-2">
+                      {t(`history.actions.${entry.action}`)}
+                      {entry.mode && <span className="text-xs text-gray-500"> · {entry.mode}</span>}
+                    </td>
+                    <td className="px-3 py-2">
+                      <button
+                        onClick={() => toggleExpanded(entry.id)}
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        {t('history.summary', { count: entry.items.length, failed })}
+                      </button>
+                      {expanded && (
+                        <ul className="mt-2 space-y-1">
+                          {entry.items.map((item, index) => (
+                            <li key={index} title={item.error} className="flex items-center space-x-2">
+                              <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${resultClass(item.result)}`}>
+                                {item.result}
+                              </span>
+                              <span>{item.bookName} <span className="text-gray-400">#{item.bookId}</span></span>
+                              {item.destinationId && <span className="text-xs text-gray-500">→ {item.destinationId}</span>}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { FormEvent, useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import AuthApi, { AuthOptions, AuthUser } from '../services/authApi';
+
+// Create a single instance of the auth API
+const authApi = new AuthApi();
+
+// Sign-in screen with the login methods enabled on the backend
+export function LoginPage({ onLogin }: { onLogin: (user: AuthUser) => void }) {
+  const { t } = useTranslation();
+  const [options, setOptions] = useState<AuthOptions | null>(null);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isLoggingIn, setIsLoggingIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    authApi.getOptions()
+      .then(setOptions)
+      .catch(() => setError('Unable to reach the login service. Make sure the backend is running.'));
+  }, []);
+
+  const login = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsLoggingIn(true);
+    setError(null);
+
+    try {
+      onLogin(await authApi.login(username, password));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to log in');
+    } finally {
+      setIsLoggingIn(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <div className="bg-white shadow-md rounded-lg p-8 max-w-sm w-full">
+        <h1 className="text-2xl font-bold text-center text-gray-800 mb-6">{t('app.title')}</h1>
+
+        {error && (
+          <div className="mb-4 p-3 rounded-md bg-red-100 text-red-800 text-sm">{error}</div>
+        )}
+
+        {options?.localLogin && (
+          <form onSubmit={login} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1 text-left">{t('auth.username')}</label>
+              <input
+                type="text"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                autoComplete="username"
+                autoFocus
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1 text-left">{t('auth.password')}</label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="current-password"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={!username || !password || isLoggingIn}
+              className="w-full py-2 px-4 bg-indigo-600 hover:bg-indigo-700 text-white font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+            >
+              {isLoggingIn ? 'Logging in...' : t('auth.login')}
+            </button>
+          </form>
+        )}
+
+        {options?.localLogin && options.oidcLogin && (
+          <div className="my-4 text-center text-sm text-gray-400">{t('auth.or')}</div>
+        )}
+
+        {options?.oidcLogin && (
+          <button
+            onClick={() => authApi.startOidcLogin()}
+            className="w-full py-2 px-4 bg-white border border-gray-300 hover:bg-gray-50 text-gray-800 font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+          >
+            {t('auth.loginWith', { provider: options.oidcProviderName || 'SSO' })}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
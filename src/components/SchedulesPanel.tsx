@@ -0,0 +1,351 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Book } from '../services/bookstackApi';
+import SpringBootApi, { NewSyncSchedule, ScheduleBookFilter, SyncMode, SyncSchedule } from '../services/springBootApi';
+
+// Create a single instance of the Spring Boot API
+const springBootApi = new SpringBootApi();
+
+// Common schedules offered next to the free-form cron field
+const CRON_PRESETS = [
+  { label: 'Every night at 02:00', cron: '0 2 * * *' },
+  { label: 'Every hour', cron: '0 * * * *' },
+  { label: 'Every Monday at 06:00', cron: '0 6 * * 1' },
+  { label: 'First day of the month at 03:00', cron: '0 3 1 * *' }
+];
+
+// One cron field: *, a number or range, optionally stepped, in a comma separated list
+const CRON_FIELD_PATTERN = /^(\*|\d+(-\d+)?)(\/\d+)?(,(\*|\d+(-\d+)?)(\/\d+)?)*$/;
+
+// Only checks the shape of the five fields; the server rejects out-of-range values
+function isValidCron(cron: string): boolean {
+  const fields = cron.trim().split(/\s+/);
+  return fields.length === 5 && fields.every(field => CRON_FIELD_PATTERN.test(field));
+}
+
+function describeBooks(books: ScheduleBookFilter, bookNames: {[key: number]: string}): string {
+  if (books.tagName) {
+    return books.tagValue ? `Tagged ${books.tagName}=${books.tagValue}` : `Tagged ${books.tagName}`;
+  }
+  const names = (books.bookIds || []).map(id => bookNames[id] || `#${id}`);
+  return names.length > 3 ? `${names.slice(0, 3).join(', ')} +${names.length - 3} more` : names.join(', ');
+}
+
+// Tab for creating recurring syncs and following how their last run went
+export function SchedulesPanel({ books }: { books: Book[] }) {
+  const { t } = useTranslation();
+  const [schedules, setSchedules] = useState<SyncSchedule[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error' | null; text: string }>({
+    type: null,
+    text: '',
+  });
+
+  const [name, setName] = useState('');
+  const [cron, setCron] = useState(CRON_PRESETS[0].cron);
+  const [mode, setMode] = useState<SyncMode>('full');
+  const [target, setTarget] = useState<'books' | 'tag'>('books');
+  const [selectedBookIds, setSelectedBookIds] = useState<number[]>([]);
+  const [tagName, setTagName] = useState('');
+  const [tagValue, setTagValue] = useState('');
+
+  const bookNames = useMemo(() => {
+    return books.reduce((acc, book) => ({ ...acc, [book.id]: book.name }), {} as {[key: number]: string});
+  }, [books]);
+
+  useEffect(() => {
+    loadSchedules();
+  }, []);
+
+  const loadSchedules = async () => {
+    setLoading(true);
+    try {
+      setSchedules(await springBootApi.listSchedules());
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to load schedules',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleBook = (bookId: number) => {
+    setSelectedBookIds(prev => prev.includes(bookId) ? prev.filter(id => id !== bookId) : [...prev, bookId]);
+  };
+
+  const canCreate = name.trim() !== '' && isValidCron(cron) &&
+    (target === 'books' ? selectedBookIds.length > 0 : tagName.trim() !== '');
+
+  const createSchedule = async () => {
+    setIsSaving(true);
+    setMessage({ type: null, text: '' });
+
+    try {
+      const config = await springBootApi.getConfig();
+      const schedule: NewSyncSchedule = {
+        name: name.trim(),
+        cron: cron.trim(),
+        mode,
+        books: target === 'books'
+          ? { bookIds: selectedBookIds }
+          : { tagName: tagName.trim(), tagValue: tagValue.trim() || undefined },
+        tagRules: config?.tagRules
+      };
+
+      const created = await springBootApi.createSchedule(schedule);
+      setSchedules(prev => [...prev, created]);
+      setName('');
+      setSelectedBookIds([]);
+      setTagName('');
+      setTagValue('');
+      setMessage({ type: 'success', text: `Schedule "${created.name}" created` });
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to create schedule',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const togglePaused = async (schedule: SyncSchedule) => {
+    try {
+      const updated = schedule.status === 'paused'
+        ? await springBootApi.resumeSchedule(schedule.id)
+        : await springBootApi.pauseSchedule(schedule.id);
+      setSchedules(prev => prev.map(s => s.id === updated.id ? updated : s));
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to update schedule',
+      });
+    }
+  };
+
+  const deleteSchedule = async (schedule: SyncSchedule) => {
+    if (!window.confirm(`Delete the schedule "${schedule.name}"?`)) return;
+
+    try {
+      await springBootApi.deleteSchedule(schedule.id);
+      setSchedules(prev => prev.filter(s => s.id !== schedule.id));
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to delete schedule',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {message.type && (
+        <div
+          className={`p-4 rounded-md ${
+            message.type === 'success' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <div className="bg-white shadow-md rounded-lg p-6">
+        <h2 className="text-xl font-bold mb-4 text-left text-gray-800">{t('schedules.newSchedule')}</h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1 text-left">{t('schedules.name')}</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              placeholder="Nightly public sync"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1 text-left">{t('schedules.cron')}</label>
+            <input
+              type="text"
+              value={cron}
+              onChange={(e) => setCron(e.target.value)}
+              className={`w-full px-3 py-2 border rounded-md shadow-sm font-mono focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 ${
+                isValidCron(cron) ? 'border-gray-300' : 'border-red-500'
+              }`}
+              placeholder="0 2 * * *"
+            />
+            <div className="flex flex-wrap gap-2 mt-2">
+              {CRON_PRESETS.map(preset => (
+                <button
+                  key={preset.cron}
+                  onClick={() => setCron(preset.cron)}
+                  className="px-2 py-1 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 rounded"
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1 text-left">{t('schedules.mode')}</label>
+            <select
+              value={mode}
+              onChange={(e) => setMode(e.target.value as SyncMode)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              <option value="full">{t('syncMode.full')}</option>
+              <option value="delta">{t('syncMode.delta')}</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="mt-4 text-left">
+          <div className="flex gap-6 mb-2">
+            <label className="flex items-center text-sm">
+              <input
+                type="radio"
+                checked={target === 'books'}
+                onChange={() => setTarget('books')}
+                className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+              />
+              <span className="ml-2">{t('schedules.selectedBooks')}</span>
+            </label>
+            <label className="flex items-center text-sm">
+              <input
+                type="radio"
+                checked={target === 'tag'}
+                onChange={() => setTarget('tag')}
+                className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+              />
+              <span className="ml-2">{t('schedules.booksWithTag')}</span>
+            </label>
+          </div>
+
+          {target === 'books' ? (
+            <div className="max-h-48 overflow-y-auto border border-gray-200 rounded-md p-2 grid grid-cols-1 md:grid-cols-2 gap-1">
+              {books.map(book => (
+                <label key={book.id} className="flex items-center text-sm">
+                  <input
+                    type="checkbox"
+                    checked={selectedBookIds.includes(book.id)}
+                    onChange={() => toggleBook(book.id)}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  <span className="ml-2 truncate">{book.name}</span>
+                </label>
+              ))}
+            </div>
+          ) : (
+            <div className="flex gap-4">
+              <input
+                type="text"
+                value={tagName}
+                onChange={(e) => setTagName(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                placeholder={t('schedules.tagName')}
+              />
+              <input
+                type="text"
+                value={tagValue}
+                onChange={(e) => setTagValue(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                placeholder={t('schedules.tagValue')}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="mt-4 flex justify-end">
+          <button
+            onClick={createSchedule}
+            disabled={!canCreate || isSaving}
+            className="px-6 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : t('schedules.create')}
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white shadow-md rounded-lg p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-gray-800">{t('tabs.schedules')}</h2>
+          <button
+            onClick={loadSchedules}
+            disabled={loading}
+            className="py-2 px-4 bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50"
+          >
+            {loading ? 'Loading...' : t('buttons.refresh')}
+          </button>
+        </div>
+
+        {schedules.length === 0 ? (
+          <p className="text-gray-500 text-center py-6">{t('schedules.empty')}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm text-left">
+              <thead className="bg-gray-50 text-gray-600">
+                <tr>
+                  <th className="px-3 py-2">{t('schedules.name')}</th>
+                  <th className="px-3 py-2">{t('schedules.cron')}</th>
+                  <th className="px-3 py-2">{t('schedules.books')}</th>
+                  <th className="px-3 py-2">{t('schedules.nextRun')}</th>
+                  <th className="px-3 py-2">{t('schedules.lastRun')}</th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {schedules.map(schedule => (
+                  <tr key={schedule.id} className={schedule.status === 'paused' ? 'text-gray-400' : ''}>
+                    <td className="px-3 py-2">
+                      <div className="font-medium">{schedule.name}</div>
+                      <div className="text-xs">{schedule.mode}{schedule.status === 'paused' && ` · ${t('schedules.paused')}`}</div>
+                    </td>
+                    <td className="px-3 py-2 font-mono">{schedule.cron}</td>
+                    <td className="px-3 py-2">{describeBooks(schedule.books, bookNames)}</td>
+                    <td className="px-3 py-2">
+                      {schedule.status === 'active' && schedule.nextRunAt ? new Date(schedule.nextRunAt).toLocaleString() : '-'}
+                    </td>
+                    <td className="px-3 py-2">
+                      {schedule.lastRun ? (
+                        <div title={schedule.lastRun.error}>
+                          <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${
+                            schedule.lastRun.status === 'completed' ? 'bg-green-100 text-green-800' :
+                            schedule.lastRun.status === 'failed' ? 'bg-red-100 text-red-800' :
+                            'bg-blue-100 text-blue-800'
+                          }`}>
+                            {schedule.lastRun.status}
+                          </span>
+                          <div className="text-xs mt-1">
+                            {new Date(schedule.lastRun.startedAt).toLocaleString()} · {schedule.lastRun.booksSynced} synced, {schedule.lastRun.booksFailed} failed
+                          </div>
+                        </div>
+                      ) : (
+                        <span className="text-gray-400">{t('schedules.neverRun')}</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-right">
+                      <button
+                        onClick={() => togglePaused(schedule)}
+                        className="text-blue-600 hover:text-blue-800 mr-3"
+                      >
+                        {schedule.status === 'paused' ? t('buttons.resume') : t('buttons.pause')}
+                      </button>
+                      <button
+                        onClick={() => deleteSchedule(schedule)}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        {t('buttons.delete')}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
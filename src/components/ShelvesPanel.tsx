@@ -0,0 +1,132 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Shelf } from '../services/bookstackApi';
+import SpringBootApi from '../services/springBootApi';
+
+// Create a single instance of the Spring Boot API
+const springBootApi = new SpringBootApi();
+
+// Tab listing the source shelves, each of which can be synced with its books as a whole
+export function ShelvesPanel({
+  canSync,
+  busy,
+  isInDestination,
+  syncProgress,
+  onSync
+}: {
+  canSync: boolean,
+  // A sync is already running
+  busy: boolean,
+  isInDestination: (bookId: number) => boolean,
+  // Sync status of each book, by book id, while and after the books of a shelf are synced
+  syncProgress: {[key: number]: string},
+  onSync: (shelf: Shelf) => void
+}) {
+  const { t } = useTranslation();
+  const [shelves, setShelves] = useState<Shelf[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedIds, setExpandedIds] = useState<number[]>([]);
+
+  useEffect(() => {
+    loadShelves();
+  }, []);
+
+  const loadShelves = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setShelves(await springBootApi.listShelves());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load shelves');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleExpanded = (shelfId: number) => {
+    setExpandedIds(prev => prev.includes(shelfId) ? prev.filter(id => id !== shelfId) : [...prev, shelfId]);
+  };
+
+  // Open the shelf's book list, where the progress of each book shows
+  const syncShelf = (shelf: Shelf) => {
+    setExpandedIds(prev => prev.includes(shelf.id) ? prev : [...prev, shelf.id]);
+    onSync(shelf);
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold text-gray-800">{t('tabs.shelves')}</h2>
+        <button
+          onClick={loadShelves}
+          disabled={loading}
+          className="py-2 px-4 bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50"
+        >
+          {loading ? 'Loading...' : t('buttons.refresh')}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 rounded-md bg-red-100 text-red-800">{error}</div>
+      )}
+
+      {shelves.length === 0 ? (
+        <p className="text-gray-500 text-center py-6">{loading ? t('app.loading') : t('shelves.empty')}</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {shelves.map(shelf => {
+            const syncedCount = shelf.books.filter(book => isInDestination(book.id)).length;
+
+            return (
+              <li key={shelf.id} className="py-3">
+                <div className="flex items-center justify-between">
+                  <button
+                    onClick={() => toggleExpanded(shelf.id)}
+                    className="text-left focus:outline-none"
+                  >
+                    <div className="font-medium text-gray-800">{shelf.name}</div>
+                    <div className="text-sm text-gray-500">
+                      {t('shelves.bookCount', { count: shelf.books.length, synced: syncedCount })}
+                    </div>
+                  </button>
+                  {canSync && (
+                    <button
+                      onClick={() => syncShelf(shelf)}
+                      disabled={busy}
+                      className={`py-2 px-4 font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 ${
+                        busy
+                          ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                          : 'bg-blue-600 text-white hover:bg-blue-700 focus:ring-blue-500'
+                      }`}
+                    >
+                      {t('shelves.syncShelf')}
+                    </button>
+                  )}
+                </div>
+                {expandedIds.includes(shelf.id) && (
+                  <ol className="mt-2 ml-4 list-decimal list-inside text-sm text-gray-700 space-y-1">
+                    {shelf.books.map(book => (
+                      <li key={book.id}>
+                        {book.name}
+                        {syncProgress[book.id] ? (
+                          <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-blue-100 text-blue-800">
+                            {syncProgress[book.id]}
+                          </span>
+                        ) : isInDestination(book.id) && (
+                          <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                            {t('status.inDestination')}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import SpringBootApi, { DestinationSnapshot, SnapshotRestoreItem } from '../services/springBootApi';
+
+// Create a single instance of the Spring Boot API
+const springBootApi = new SpringBootApi();
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.ceil(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function describeBooks(snapshot: DestinationSnapshot): string {
+  const names = snapshot.books.map(book => book.name);
+  return names.length > 3 ? `${names.slice(0, 3).join(', ')} +${names.length - 3} more` : names.join(', ');
+}
+
+// Snapshots taken before destination books were deleted or overwritten, with restore and download
+export function SnapshotsPanel({
+  canManage,
+  refreshKey,
+  onRestored
+}: {
+  // Restoring and deleting snapshots is for admins, like the deletes they undo
+  canManage: boolean,
+  // Changes whenever a new snapshot may have been taken, to reload the list
+  refreshKey: number,
+  onRestored: (snapshot: DestinationSnapshot, items: SnapshotRestoreItem[]) => void
+}) {
+  const { t } = useTranslation();
+  const [snapshots, setSnapshots] = useState<DestinationSnapshot[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSnapshots();
+  }, [refreshKey]);
+
+  const loadSnapshots = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setSnapshots(await springBootApi.listSnapshots());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load snapshots');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const restoreSnapshot = async (snapshot: DestinationSnapshot) => {
+    if (!window.confirm(t('snapshots.confirmRestore', { count: snapshot.books.length }))) return;
+
+    setRestoringId(snapshot.id);
+    setError(null);
+    try {
+      onRestored(snapshot, await springBootApi.restoreSnapshot(snapshot));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore snapshot');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const deleteSnapshot = async (snapshot: DestinationSnapshot) => {
+    if (!window.confirm(t('snapshots.confirmDelete'))) return;
+
+    setError(null);
+    try {
+      await springBootApi.deleteSnapshot(snapshot.id);
+      setSnapshots(prev => prev.filter(s => s.id !== snapshot.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete snapshot');
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-6 mt-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold text-gray-800">{t('snapshots.title')}</h2>
+        <button
+          onClick={loadSnapshots}
+          disabled={loading}
+          className="py-2 px-4 bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50"
+        >
+          {loading ? 'Loading...' : t('buttons.refresh')}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 rounded-md bg-red-100 text-red-800">{error}</div>
+      )}
+
+      {snapshots.length === 0 ? (
+        <p className="text-gray-500 text-center py-6">{t('snapshots.empty')}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm text-left">
+            <thead className="bg-gray-50 text-gray-600">
+              <tr>
+                <th className="px-3 py-2">{t('snapshots.taken')}</th>
+                <th className="px-3 py-2">{t('snapshots.reason')}</th>
+                <th className="px-3 py-2">{t('snapshots.books')}</th>
+                <th className="px-3 py-2">{t('snapshots.size')}</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {snapshots.map(snapshot => (
+                <tr key={snapshot.id}>
+                  <td className="px-3 py-2 whitespace-nowrap">{new Date(snapshot.createdAt).toLocaleString()}</td>
+                  <td className="px-3 py-2">
+                    {t(`snapshots.reasons.${snapshot.reason}`)}
+                    <div className="text-xs text-gray-500">{snapshot.destinationId}</div>
+                  </td>
+                  <td className="px-3 py-2">{describeBooks(snapshot)}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">{formatSize(snapshot.sizeBytes)}</td>
+                  <td className="px-3 py-2 whitespace-nowrap text-right">
+                    {canManage && (
+                      <button
+                        onClick={() => restoreSnapshot(snapshot)}
+                        disabled={restoringId !== null}
+                        className="text-blue-600 hover:text-blue-800 mr-3 disabled:opacity-50"
+                      >
+                        {restoringId === snapshot.id ? 'Restoring...' : t('snapshots.restore')}
+                      </button>
+                    )}
+                    <a
+                      href={springBootApi.getSnapshotArchiveUrl(snapshot.id)}
+                      download
+                      className="text-gray-600 hover:text-gray-800 mr-3"
+                    >
+                      {t('snapshots.download')}
+                    </a>
+                    {canManage && (
+                      <button
+                        onClick={() => deleteSnapshot(snapshot)}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        {t('buttons.delete')}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
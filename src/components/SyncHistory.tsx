@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AssetSyncCounts, SyncReport, SyncReportCounts } from '../services/springBootApi';
+
+// Shown for reports without asset counts
+const NO_ASSETS: AssetSyncCounts = { copied: 0, skipped: 0, failed: 0 };
+
+function formatDuration(durationMs: number): string {
+  const seconds = Math.round(durationMs / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function statusClass(status: SyncReport['status']): string {
+  switch (status) {
+    case 'completed':
+      return 'bg-green-100 text-green-800';
+    case 'failed':
+      return 'bg-red-100 text-red-800';
+    default:
+      return 'bg-yellow-100 text-yellow-800';
+  }
+}
+
+// Past sync runs of a book, newest first; a run expands into its counts and warnings
+export function SyncHistory({ reports }: { reports: SyncReport[] }) {
+  const { t } = useTranslation();
+  const [expanded, setExpanded] = useState<number | null>(0);
+
+  if (reports.length === 0) {
+    return <p className="text-sm text-gray-500 text-left">{t('syncHistory.empty')}</p>;
+  }
+
+  const countRows: Array<{ label: string; counts: (report: SyncReport) => SyncReportCounts }> = [
+    { label: t('syncHistory.chapters'), counts: report => report.chapters },
+    { label: t('syncHistory.pages'), counts: report => report.pages }
+  ];
+
+  const assetRows: Array<{ label: string; counts: (report: SyncReport) => AssetSyncCounts }> = [
+    { label: t('syncHistory.attachments'), counts: report => ({ ...NO_ASSETS, ...report.attachments }) },
+    { label: t('syncHistory.images'), counts: report => ({ ...NO_ASSETS, ...report.images }) }
+  ];
+
+  // Reports without link results count as having none
+  const unresolvedReferences = (report: SyncReport) => report.links?.unresolved ?? [];
+
+  return (
+    <ul className="space-y-2 text-sm text-left">
+      {reports.map((report, index) => (
+        <li key={`${report.startedAt}-${report.destinationId}`} className="border border-gray-200 rounded-md">
+          <button
+            onClick={() => setExpanded(expanded === index ? null : index)}
+            className="w-full px-3 py-2 flex items-center justify-between text-left focus:outline-none"
+          >
+            <span>
+              {new Date(report.startedAt).toLocaleString()}
+              <span className="text-gray-500"> · {report.mode} · {formatDuration(report.durationMs)}</span>
+              {report.destinationId && <span className="text-gray-500"> · {report.destinationId}</span>}
+            </span>
+            <span className="flex items-center space-x-2">
+              {report.warnings.length > 0 && (
+                <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-yellow-100 text-yellow-800">
+                  {t('syncHistory.warningCount', { count: report.warnings.length })}
+                </span>
+              )}
+              <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${statusClass(report.status)}`}>
+                {report.status}
+              </span>
+            </span>
+          </button>
+
+          {expanded === index && (
+            <div className="px-3 pb-3">
+              {report.error && <p className="mb-2 text-red-600">{report.error}</p>}
+              <table className="w-full text-xs">
+                <thead className="text-gray-500">
+                  <tr>
+                    <th className="py-1 text-left"></th>
+                    <th className="py-1 text-right">{t('syncHistory.created')}</th>
+                    <th className="py-1 text-right">{t('syncHistory.updated')}</th>
+                    <th className="py-1 text-right">{t('syncHistory.deleted')}</th>
+                    <th className="py-1 text-right">{t('syncHistory.skipped')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {countRows.map(row => {
+                    const counts = row.counts(report);
+                    return (
+                      <tr key={row.label}>
+                        <td className="py-1">{row.label}</td>
+                        <td className="py-1 text-right">{counts.created}</td>
+                        <td className="py-1 text-right">{counts.updated}</td>
+                        <td className="py-1 text-right">{counts.deleted}</td>
+                        <td className="py-1 text-right">{counts.skipped}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              <table className="w-full text-xs mt-2">
+                <thead className="text-gray-500">
+                  <tr>
+                    <th className="py-1 text-left"></th>
+                    <th className="py-1 text-right">{t('syncHistory.copied')}</th>
+                    <th className="py-1 text-right" title={t('syncHistory.deduplicatedTooltip')}>{t('syncHistory.deduplicated')}</th>
+                    <th className="py-1 text-right">{t('syncHistory.failed')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {assetRows.map(row => {
+                    const counts = row.counts(report);
+                    return (
+                      <tr key={row.label}>
+                        <td className="py-1">{row.label}</td>
+                        <td className="py-1 text-right">{counts.copied}</td>
+                        <td className="py-1 text-right">{counts.skipped}</td>
+                        <td className="py-1 text-right">{counts.failed}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              <p className="mt-2 text-xs text-gray-600">
+                {t('syncHistory.linksRewritten', { count: report.links?.rewritten ?? 0 })}
+              </p>
+              {unresolvedReferences(report).length > 0 && (
+                <div className="mt-2">
+                  <p className="text-xs font-medium text-red-700">
+                    {t('syncHistory.unresolvedReferences', { count: unresolvedReferences(report).length })}
+                  </p>
+                  <ul className="mt-1 text-xs text-red-700 space-y-1">
+                    {unresolvedReferences(report).map((reference, referenceIndex) => (
+                      <li key={referenceIndex}>
+                        {reference.pageName}: <code className="bg-red-50 px-1 rounded">{reference.reference}</code>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {report.warnings.length > 0 && (
+                <ul className="mt-2 list-disc list-inside text-yellow-800">
+                  {report.warnings.map((warning, warningIndex) => (
+                    <li key={warningIndex}>{warning}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,155 @@
+import { useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { SyncPlan, SyncPlanAction, SyncPlanItem } from '../services/springBootApi';
+
+const ITEM_TYPES: SyncPlanItem['type'][] = ['book', 'chapter', 'page', 'attachment', 'image'];
+const ACTIONS: SyncPlanAction[] = ['create', 'update', 'delete', 'skip'];
+
+// Badge colours per planned action
+const ACTION_STYLES: {[key in SyncPlanAction]: string} = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-yellow-100 text-yellow-800',
+  delete: 'bg-red-100 text-red-800',
+  skip: 'bg-gray-100 text-gray-800'
+};
+
+// The plan of a sync to one destination, under the destination's name
+export interface DestinationSyncPlan {
+  name: string;
+  plan: SyncPlan;
+}
+
+// Summary table and changed items of one destination's plan
+function PlanDetails({ plan }: { plan: SyncPlan }) {
+  const { t } = useTranslation();
+
+  // Count items per type and action for the summary table
+  const counts = useMemo(() => {
+    const result = {} as {[key: string]: number};
+    for (const item of plan.items) {
+      const key = `${item.type}-${item.action}`;
+      result[key] = (result[key] || 0) + 1;
+    }
+    return result;
+  }, [plan]);
+
+  // Items that will change something, skipped ones are only counted
+  const changedItems = plan.items.filter(item => item.action !== 'skip');
+
+  return (
+    <>
+      <table className="min-w-full divide-y divide-gray-200 mb-4">
+        <thead className="bg-gray-50">
+          <tr>
+            <th scope="col" className="px-3 py-2"></th>
+            {ACTIONS.map(action => (
+              <th key={action} scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t(`preview.actions.${action}`)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {ITEM_TYPES.map(type => (
+            <tr key={type}>
+              <td className="px-3 py-2 text-sm font-medium text-left">{t(`preview.types.${type}`)}</td>
+              {ACTIONS.map(action => (
+                <td key={action} className="px-3 py-2 text-sm text-left">
+                  {counts[`${type}-${action}`] || 0}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {changedItems.length === 0 ? (
+        <p className="text-gray-600">{t('preview.noChanges')}</p>
+      ) : (
+        <ul className="space-y-1 text-left">
+          {changedItems.map((item, index) => (
+            <li key={`${item.type}-${item.sourceId ?? item.destinationId}-${index}`} className="flex items-center text-sm">
+              <span className={`inline-flex items-center px-2 py-1 mr-2 rounded text-xs font-medium ${ACTION_STYLES[item.action]}`}>
+                {t(`preview.actions.${item.action}`)}
+              </span>
+              <span className="text-gray-500 mr-2">{t(`preview.types.${item.type}`)}</span>
+              <span className="break-words">{item.name}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  );
+}
+
+// Modal showing the dry-run plan of a sync before it is started, per destination it syncs to
+export function SyncPreviewModal({
+  plans,
+  onConfirm,
+  onCancel
+}: {
+  plans: DestinationSyncPlan[],
+  onConfirm: () => void,
+  onCancel: () => void
+}) {
+  const { t } = useTranslation();
+
+  // Add keyboard event listener for ESC key
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onCancel();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onCancel]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onCancel}>
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[80vh] overflow-hidden flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 flex justify-between items-center">
+          <h3 className="text-lg font-semibold text-left">{t('preview.title')}</h3>
+          <button
+            onClick={onCancel}
+            className="text-gray-500 hover:text-gray-700 focus:outline-none"
+          >
+            <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+              <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+            </svg>
+          </button>
+        </div>
+        <div className="p-4 overflow-y-auto">
+          {plans.length === 1 ? (
+            <PlanDetails plan={plans[0].plan} />
+          ) : (
+            plans.map(({ name, plan }) => (
+              <section key={name} className="mb-6 last:mb-0">
+                <h4 className="text-md font-semibold text-left mb-2">{t('preview.destination', { name })}</h4>
+                <PlanDetails plan={plan} />
+              </section>
+            ))
+          )}
+        </div>
+        <div className="p-4 border-t border-gray-200 flex space-x-3 justify-end">
+          <button
+            onClick={onCancel}
+            className="py-2 px-4 bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+          >
+            {t('buttons.cancel')}
+          </button>
+          <button
+            onClick={onConfirm}
+            className="py-2 px-4 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            {t('buttons.syncNow')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { FormEvent, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import SpringBootApi from '../services/springBootApi';
+import { CONFIG_UPDATED_EVENT } from './ConfigForm';
+import { MIN_PASSPHRASE_LENGTH } from '../services/credentialVault';
+
+// Create a single instance of the Spring Boot API
+const springBootApi = new SpringBootApi();
+
+// Startup prompt for the passphrase of the credential vault
+export function VaultUnlockModal({ onClose }: { onClose: () => void }) {
+  const { t } = useTranslation();
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const unlock = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsUnlocking(true);
+    setError(null);
+
+    try {
+      await springBootApi.unlockVault(passphrase);
+
+      // The unlocked profiles replace whatever this session had
+      window.dispatchEvent(new CustomEvent(CONFIG_UPDATED_EVENT));
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock the vault');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <form onSubmit={unlock} className="bg-white rounded-lg shadow-xl max-w-md w-full p-6">
+        <h3 className="text-lg font-semibold text-left mb-2">{t('vault.unlockTitle')}</h3>
+        <p className="text-sm text-gray-600 text-left mb-4">{t('vault.unlockMessage')}</p>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          autoFocus
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          placeholder={t('vault.passphrase')}
+        />
+        {error && (
+          <p className="mt-2 text-sm text-red-600 text-left">{error}</p>
+        )}
+        <div className="mt-6 flex space-x-3 justify-end">
+          <button
+            type="button"
+            onClick={onClose}
+            className="py-2 px-4 bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+          >
+            {t('vault.skip')}
+          </button>
+          <button
+            type="submit"
+            disabled={passphrase.length < MIN_PASSPHRASE_LENGTH || isUnlocking}
+            className="py-2 px-4 bg-indigo-600 hover:bg-indigo-700 text-white font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            {isUnlocking ? 'Unlocking...' : t('vault.unlock')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
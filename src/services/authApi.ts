@@ -0,0 +1,107 @@
+import axios from 'axios';
+
+// Authentication endpoints of the Spring Boot backend; the login session is an HttpOnly cookie
+const AUTH_API_URL = '/api/auth';
+
+// Fired when a request comes back 401 so the app can check whether the login expired
+export const AUTH_EXPIRED_EVENT = 'authExpired';
+
+// viewer: list books only, operator: also sync, admin: also delete, destroy and configure
+export type Role = 'viewer' | 'operator' | 'admin';
+
+// Each role includes everything the roles before it may do
+const ROLE_ORDER: Role[] = ['viewer', 'operator', 'admin'];
+
+export interface AuthUser {
+  username: string;
+  displayName?: string;
+  roles: Role[];
+  // How the user logged in
+  provider: 'local' | 'oidc';
+}
+
+// Login methods enabled on the backend
+export interface AuthOptions {
+  localLogin: boolean;
+  oidcLogin: boolean;
+  // Shown on the single sign-on button, e.g. "Company SSO"
+  oidcProviderName?: string;
+}
+
+/**
+ * Check whether the user has the role, or a role above it
+ */
+export function hasRole(user: AuthUser | null, role: Role): boolean {
+  if (!user) return false;
+
+  const required = ROLE_ORDER.indexOf(role);
+  return user.roles.some(userRole => ROLE_ORDER.indexOf(userRole) >= required);
+}
+
+class AuthApi {
+  /**
+   * Get the logged in user, or null if there is no valid login
+   */
+  async getCurrentUser(): Promise<AuthUser | null> {
+    try {
+      const response = await axios.get(`${AUTH_API_URL}/me`);
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 401) {
+        return null;
+      }
+      console.error('Error getting current user:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the login methods the backend offers
+   */
+  async getOptions(): Promise<AuthOptions> {
+    try {
+      const response = await axios.get(`${AUTH_API_URL}/options`);
+      return response.data;
+    } catch (error) {
+      console.error('Error getting login options:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Log in with a local user; the backend sets the session cookie
+   */
+  async login(username: string, password: string): Promise<AuthUser> {
+    try {
+      const response = await axios.post(`${AUTH_API_URL}/login`, { username, password });
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 401) {
+        throw new Error('Invalid username or password');
+      }
+      console.error('Error logging in:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Start single sign-on; the backend redirects to the identity provider and back to the app
+   */
+  startOidcLogin(): void {
+    window.location.assign(`${AUTH_API_URL}/oidc/login`);
+  }
+
+  /**
+   * End the login session
+   */
+  async logout(): Promise<void> {
+    try {
+      await axios.post(`${AUTH_API_URL}/logout`);
+    } catch (error) {
+      console.error('Error logging out:', error);
+      throw error;
+    }
+  }
+}
+
+export default AuthApi;
@@ -0,0 +1,120 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import BookStackApi from './bookstackApi';
+
+type Handler = (request: IncomingMessage, url: URL, response: ServerResponse) => void;
+
+// A local stand-in for a BookStack instance; each test sets the handler for its requests
+let server: Server;
+let baseURL: string;
+let handler: Handler;
+let requests: URL[] = [];
+
+function sendJson(response: ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+function createApi(): BookStackApi {
+  // No retries, so error mapping is tested without waiting for backoff
+  return new BookStackApi(
+    { baseURL: `${baseURL}/`, tokenId: 'id', tokenSecret: 'secret' },
+    { retryPolicy: { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0 }, timeoutMs: 5000 }
+  );
+}
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    const url = new URL(request.url || '/', baseURL);
+    requests.push(url);
+    handler(request, url, response);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+afterEach(() => {
+  requests = [];
+  vi.restoreAllMocks();
+});
+
+describe('BookStackApi', () => {
+  it('sends the token and list params as BookStack query keys', async () => {
+    let authorization: string | undefined;
+    handler = (request, _url, response) => {
+      authorization = request.headers.authorization;
+      sendJson(response, 200, { data: [], total: 0 });
+    };
+
+    await createApi().listBooks({
+      count: 10,
+      offset: 20,
+      sort: '-updated_at',
+      filter: { 'updated_at:gt': '2024-01-01', name: 'My Book' }
+    });
+
+    expect(authorization).toBe('Token id:secret');
+    expect(requests[0].pathname).toBe('/api/books');
+    expect(Object.fromEntries(requests[0].searchParams)).toEqual({
+      count: '10',
+      offset: '20',
+      sort: '-updated_at',
+      'filter[updated_at:gt]': '2024-01-01',
+      'filter[name]': 'My Book'
+    });
+  });
+
+  it('fetches every page of a listing', async () => {
+    const books = Array.from({ length: 5 }, (_, index) => ({ id: index + 1 }));
+    handler = (_request, url, response) => {
+      const count = Number(url.searchParams.get('count'));
+      const offset = Number(url.searchParams.get('offset'));
+      sendJson(response, 200, { data: books.slice(offset, offset + count), total: books.length });
+    };
+
+    const api = createApi();
+    const result = await api.listAll(params => api.listBooks(params), { count: 2, filter: { name: 'x' } });
+
+    expect(result.map(book => book.id)).toEqual([1, 2, 3, 4, 5]);
+    expect(requests.map(url => url.searchParams.get('offset'))).toEqual(['0', '2', '4']);
+    expect(requests.every(url => url.searchParams.get('filter[name]') === 'x')).toBe(true);
+  });
+
+  it('uses a page size of at least one', async () => {
+    handler = (_request, url, response) => {
+      const offset = Number(url.searchParams.get('offset'));
+      sendJson(response, 200, { data: offset < 2 ? [{ id: offset + 1 }] : [], total: 2 });
+    };
+
+    const api = createApi();
+    const result = await api.listAll(params => api.listBooks(params), { count: 0 });
+
+    expect(result).toHaveLength(2);
+    expect(requests.map(url => url.searchParams.get('count'))).toEqual(['1', '1']);
+  });
+
+  it('turns error responses into errors with the status, message and validation errors', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    handler = (_request, _url, response) => {
+      sendJson(response, 422, {
+        error: { code: 422, message: 'The given data was invalid.', validation: { name: ['The name field is required.'] } }
+      });
+    };
+
+    await expect(createApi().createBook({ name: '' })).rejects.toThrow(
+      'BookStack API Error: 422 - The given data was invalid. (The name field is required.)'
+    );
+  });
+
+  it('reports a missing response when the server closes the connection', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    handler = request => request.socket.destroy();
+
+    await expect(createApi().getBook(1)).rejects.toThrow('No response received from BookStack');
+  });
+});
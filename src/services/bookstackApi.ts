@@ -1,4 +1,6 @@
-// Type definitions for BookStack API
+// Type definitions for BookStack API, and a typed client for calling it directly
+import axios, { AxiosError, AxiosInstance, AxiosRequestConfig } from 'axios';
+import { DEFAULT_RETRY_POLICY, RetryPolicy, withRetry } from './retryPolicy';
 
 export interface BookStackConfig {
   baseURL: string;
@@ -23,19 +25,7 @@ export interface Book {
     name: string;
     slug: string;
   };
-  contents: Array<{
-    id: number;
-    type: string;
-    name: string;
-    slug: string;
-    book_id: number;
-    chapter_id?: number;
-    pages?: Array<{
-      id: number;
-      name: string;
-      slug: string;
-    }>;
-  }>;
+  contents: BookContentItem[];
   tags: Array<{
     name: string;
     value: string;
@@ -43,6 +33,23 @@ export interface Book {
   }>;
 }
 
+// A chapter or a book-level page as listed in Book.contents
+export interface BookContentItem {
+  id: number;
+  type: string;
+  name: string;
+  slug: string;
+  book_id: number;
+  chapter_id?: number;
+  updated_at?: string;
+  pages?: Array<{
+    id: number;
+    name: string;
+    slug: string;
+    updated_at?: string;
+  }>;
+}
+
 export interface Chapter {
   id: number;
   book_id: number;
@@ -102,4 +109,514 @@ export interface Page {
     value: string;
     order: number;
   }>;
-} 
\ No newline at end of file
+} 
+
+// A user as referenced from content listings, where only the id is given
+export type UserId = number;
+
+export interface Tag {
+  name: string;
+  value: string;
+  order?: number;
+}
+
+// One page of a listing endpoint; total counts every item matching the filters
+export interface ListResponse<T> {
+  data: T[];
+  total: number;
+}
+
+// Comparison operators of BookStack listing filters, e.g. { 'updated_at:gt': '2024-01-01' }
+export type FilterOperator = 'eq' | 'ne' | 'gt' | 'lt' | 'gte' | 'lte' | 'like';
+
+// Paging, sorting and filtering accepted by every listing endpoint
+export interface ListParams {
+  // Items per page; BookStack caps this at 500
+  count?: number;
+  offset?: number;
+  // Field to sort by, prefixed with + or - for the direction, e.g. "-updated_at"
+  sort?: string;
+  // Keyed by field, or by field:operator
+  filter?: {[field: string]: string | number};
+}
+
+// Books, chapters, pages and shelves as returned by their listing endpoints
+export interface BookListItem {
+  id: number;
+  name: string;
+  slug: string;
+  description: string;
+  created_at: string;
+  updated_at: string;
+  created_by: UserId;
+  updated_by: UserId;
+  owned_by: UserId;
+}
+
+export interface ChapterListItem extends BookListItem {
+  book_id: number;
+  priority: number;
+}
+
+export interface PageListItem {
+  id: number;
+  book_id: number;
+  chapter_id: number;
+  name: string;
+  slug: string;
+  priority: number;
+  draft: boolean;
+  template: boolean;
+  created_at: string;
+  updated_at: string;
+  created_by: UserId;
+  updated_by: UserId;
+  owned_by: UserId;
+}
+
+export type ShelfListItem = BookListItem;
+
+export interface Shelf {
+  id: number;
+  name: string;
+  slug: string;
+  description: string;
+  created_at: string;
+  updated_at: string;
+  created_by: { id: number; name: string; slug: string };
+  updated_by: { id: number; name: string; slug: string };
+  owned_by: { id: number; name: string; slug: string };
+  tags: Tag[];
+  // Books on the shelf, in shelf order
+  books: Array<{ id: number; name: string; slug: string }>;
+}
+
+export interface BookInput {
+  name: string;
+  description?: string;
+  description_html?: string;
+  tags?: Tag[];
+  default_template_id?: number;
+}
+
+export interface ChapterInput {
+  book_id: number;
+  name: string;
+  description?: string;
+  description_html?: string;
+  tags?: Tag[];
+  priority?: number;
+}
+
+// A page goes into a chapter when chapter_id is given, otherwise directly into the book
+export interface PageInput {
+  book_id?: number;
+  chapter_id?: number;
+  name: string;
+  // One of html or markdown is required when creating a page
+  html?: string;
+  markdown?: string;
+  tags?: Tag[];
+  priority?: number;
+}
+
+export interface ShelfInput {
+  name: string;
+  description?: string;
+  description_html?: string;
+  // Replaces the books on the shelf, in this order
+  books?: number[];
+  tags?: Tag[];
+}
+
+export interface Attachment {
+  id: number;
+  name: string;
+  extension: string;
+  // Page the attachment belongs to
+  uploaded_to: number;
+  // A link to elsewhere rather than an uploaded file
+  external: boolean;
+  order: number;
+  created_at: string;
+  updated_at: string;
+  created_by: UserId | { id: number; name: string; slug: string };
+  updated_by: UserId | { id: number; name: string; slug: string };
+  // Only given when reading a single attachment: base64 file data, or the URL of a link
+  content?: string;
+  links?: { html: string; markdown: string };
+}
+
+// Either a link or a file; a file is sent as multipart form data
+export interface AttachmentInput {
+  name: string;
+  uploaded_to: number;
+  link?: string;
+  file?: Blob;
+}
+
+export type ImageType = 'gallery' | 'drawio';
+
+export interface GalleryImage {
+  id: number;
+  name: string;
+  url: string;
+  path: string;
+  type: ImageType;
+  // Page the image was uploaded to
+  uploaded_to: number;
+  created_at: string;
+  updated_at: string;
+  created_by: UserId | { id: number; name: string; slug: string };
+  updated_by: UserId | { id: number; name: string; slug: string };
+  // Only given when reading a single image
+  thumbs?: { gallery: string; display: string };
+  content?: { html: string; markdown: string };
+}
+
+export interface ImageInput {
+  type: ImageType;
+  uploaded_to: number;
+  image: Blob;
+  name?: string;
+}
+
+export type SearchResultType = 'bookshelf' | 'book' | 'chapter' | 'page';
+
+export interface SearchResult {
+  id: number;
+  name: string;
+  slug: string;
+  type: SearchResultType;
+  url: string;
+  book_id?: number;
+  chapter_id?: number;
+  tags: Tag[];
+  // Name and content with the matched terms highlighted
+  preview_html: { name: string; content: string };
+}
+
+export interface SearchParams {
+  // BookStack search syntax, e.g. "cats {type:page} [visibility=public]"
+  query: string;
+  // 1-based page of results
+  page?: number;
+  count?: number;
+}
+
+export interface User {
+  id: number;
+  name: string;
+  slug: string;
+  email: string;
+  created_at: string;
+  updated_at: string;
+  external_auth_id: string;
+  last_activity_at?: string;
+  profile_url: string;
+  edit_url: string;
+  avatar_url: string;
+  // Only given when reading a single user
+  roles?: Array<{ id: number; display_name: string }>;
+}
+
+export type ExportFormat = 'html' | 'pdf' | 'plaintext' | 'markdown';
+
+export interface BookStackApiOptions {
+  retryPolicy?: RetryPolicy;
+  timeoutMs?: number;
+}
+
+// Error body of the BookStack API
+interface BookStackErrorResponse {
+  error?: {
+    code?: number;
+    message?: string;
+    validation?: {[field: string]: string[]};
+  };
+}
+
+// Timeout in milliseconds (5 minutes), the same as for the Spring Boot backend
+const DEFAULT_TIMEOUT = 300000;
+
+// Most items BookStack returns per listing page
+const MAX_PAGE_SIZE = 500;
+
+/**
+ * Client for the BookStack REST API, authenticated with an API token.
+ * Works against any base URL, so tests can point it at a local mock server.
+ * Browsers only allow calls to a BookStack instance that sends CORS headers for the app's origin.
+ */
+class BookStackApi {
+  private readonly client: AxiosInstance;
+  private readonly retryPolicy: RetryPolicy;
+
+  constructor(config: BookStackConfig, options: BookStackApiOptions = {}) {
+    this.client = axios.create({
+      baseURL: `${config.baseURL.replace(/\/+$/, '')}/api`,
+      headers: {
+        'Authorization': `Token ${config.tokenId}:${config.tokenSecret}`,
+        'Accept': 'application/json'
+      },
+      timeout: options.timeoutMs ?? DEFAULT_TIMEOUT
+    });
+    this.retryPolicy = options.retryPolicy ?? DEFAULT_RETRY_POLICY;
+  }
+
+  // Books
+
+  async listBooks(params: ListParams = {}): Promise<ListResponse<BookListItem>> {
+    return this.request('get', '/books', { params: this.toQuery(params) });
+  }
+
+  async getBook(id: number): Promise<Book> {
+    return this.request('get', `/books/${id}`);
+  }
+
+  async createBook(book: BookInput): Promise<Book> {
+    return this.request('post', '/books', { data: book });
+  }
+
+  async updateBook(id: number, book: Partial<BookInput>): Promise<Book> {
+    return this.request('put', `/books/${id}`, { data: book });
+  }
+
+  async deleteBook(id: number): Promise<void> {
+    return this.request('delete', `/books/${id}`);
+  }
+
+  async exportBook(id: number, format: ExportFormat): Promise<string | Blob> {
+    return this.export(`/books/${id}/export/${format}`, format);
+  }
+
+  // Chapters
+
+  async listChapters(params: ListParams = {}): Promise<ListResponse<ChapterListItem>> {
+    return this.request('get', '/chapters', { params: this.toQuery(params) });
+  }
+
+  async getChapter(id: number): Promise<Chapter> {
+    return this.request('get', `/chapters/${id}`);
+  }
+
+  async createChapter(chapter: ChapterInput): Promise<Chapter> {
+    return this.request('post', '/chapters', { data: chapter });
+  }
+
+  async updateChapter(id: number, chapter: Partial<ChapterInput>): Promise<Chapter> {
+    return this.request('put', `/chapters/${id}`, { data: chapter });
+  }
+
+  async deleteChapter(id: number): Promise<void> {
+    return this.request('delete', `/chapters/${id}`);
+  }
+
+  async exportChapter(id: number, format: ExportFormat): Promise<string | Blob> {
+    return this.export(`/chapters/${id}/export/${format}`, format);
+  }
+
+  // Pages
+
+  async listPages(params: ListParams = {}): Promise<ListResponse<PageListItem>> {
+    return this.request('get', '/pages', { params: this.toQuery(params) });
+  }
+
+  async getPage(id: number): Promise<Page> {
+    return this.request('get', `/pages/${id}`);
+  }
+
+  async createPage(page: PageInput): Promise<Page> {
+    return this.request('post', '/pages', { data: page });
+  }
+
+  async updatePage(id: number, page: Partial<PageInput>): Promise<Page> {
+    return this.request('put', `/pages/${id}`, { data: page });
+  }
+
+  async deletePage(id: number): Promise<void> {
+    return this.request('delete', `/pages/${id}`);
+  }
+
+  async exportPage(id: number, format: ExportFormat): Promise<string | Blob> {
+    return this.export(`/pages/${id}/export/${format}`, format);
+  }
+
+  // Shelves
+
+  async listShelves(params: ListParams = {}): Promise<ListResponse<ShelfListItem>> {
+    return this.request('get', '/shelves', { params: this.toQuery(params) });
+  }
+
+  async getShelf(id: number): Promise<Shelf> {
+    return this.request('get', `/shelves/${id}`);
+  }
+
+  async createShelf(shelf: ShelfInput): Promise<Shelf> {
+    return this.request('post', '/shelves', { data: shelf });
+  }
+
+  async updateShelf(id: number, shelf: Partial<ShelfInput>): Promise<Shelf> {
+    return this.request('put', `/shelves/${id}`, { data: shelf });
+  }
+
+  async deleteShelf(id: number): Promise<void> {
+    return this.request('delete', `/shelves/${id}`);
+  }
+
+  // Attachments
+
+  async listAttachments(params: ListParams = {}): Promise<ListResponse<Attachment>> {
+    return this.request('get', '/attachments', { params: this.toQuery(params) });
+  }
+
+  async getAttachment(id: number): Promise<Attachment> {
+    return this.request('get', `/attachments/${id}`);
+  }
+
+  async createAttachment(attachment: AttachmentInput): Promise<Attachment> {
+    return this.request('post', '/attachments', { data: this.toBody(attachment) });
+  }
+
+  /**
+   * Update an attachment. Laravel only reads multipart bodies on POST, so a new file is sent with _method=PUT.
+   */
+  async updateAttachment(id: number, attachment: Partial<AttachmentInput>): Promise<Attachment> {
+    if (attachment.file) {
+      const form = this.toBody(attachment) as FormData;
+      form.append('_method', 'PUT');
+      return this.request('post', `/attachments/${id}`, { data: form });
+    }
+    return this.request('put', `/attachments/${id}`, { data: attachment });
+  }
+
+  async deleteAttachment(id: number): Promise<void> {
+    return this.request('delete', `/attachments/${id}`);
+  }
+
+  // Image gallery
+
+  async listImages(params: ListParams = {}): Promise<ListResponse<GalleryImage>> {
+    return this.request('get', '/image-gallery', { params: this.toQuery(params) });
+  }
+
+  async getImage(id: number): Promise<GalleryImage> {
+    return this.request('get', `/image-gallery/${id}`);
+  }
+
+  async createImage(image: ImageInput): Promise<GalleryImage> {
+    return this.request('post', '/image-gallery', { data: this.toBody(image) });
+  }
+
+  /**
+   * Rename an image, or replace its file the same way as updateAttachment
+   */
+  async updateImage(id: number, image: { name?: string; image?: Blob }): Promise<GalleryImage> {
+    if (image.image) {
+      const form = this.toBody(image) as FormData;
+      form.append('_method', 'PUT');
+      return this.request('post', `/image-gallery/${id}`, { data: form });
+    }
+    return this.request('put', `/image-gallery/${id}`, { data: image });
+  }
+
+  async deleteImage(id: number): Promise<void> {
+    return this.request('delete', `/image-gallery/${id}`);
+  }
+
+  // Search
+
+  async search(params: SearchParams): Promise<ListResponse<SearchResult>> {
+    return this.request('get', '/search', { params });
+  }
+
+  // Users
+
+  async listUsers(params: ListParams = {}): Promise<ListResponse<User>> {
+    return this.request('get', '/users', { params: this.toQuery(params) });
+  }
+
+  async getUser(id: number): Promise<User> {
+    return this.request('get', `/users/${id}`);
+  }
+
+  /**
+   * Fetch every item of a listing, one page at a time.
+   * The given offset is ignored and count only sets the page size, between 1 and 500.
+   */
+  async listAll<T>(list: (params: ListParams) => Promise<ListResponse<T>>, params: ListParams = {}): Promise<T[]> {
+    const count = Math.max(1, Math.min(params.count ?? MAX_PAGE_SIZE, MAX_PAGE_SIZE));
+    const items: T[] = [];
+
+    for (let offset = 0; ; offset += count) {
+      const page = await list({ ...params, count, offset });
+      items.push(...page.data);
+      if (page.data.length < count || items.length >= page.total) {
+        return items;
+      }
+    }
+  }
+
+  // Turn ListParams into BookStack's query string keys, e.g. filter[updated_at:gt]
+  private toQuery(params: ListParams): {[key: string]: string | number} {
+    const query: {[key: string]: string | number} = {};
+    if (params.count !== undefined) query.count = params.count;
+    if (params.offset !== undefined) query.offset = params.offset;
+    if (params.sort) query.sort = params.sort;
+
+    for (const [field, value] of Object.entries(params.filter || {})) {
+      query[`filter[${field}]`] = value;
+    }
+    return query;
+  }
+
+  // Inputs with a file are sent as multipart form data, everything else as JSON
+  private toBody(input: object): object | FormData {
+    const values = Object.entries(input).filter(([, value]) => value !== undefined);
+    if (!values.some(([, value]) => value instanceof Blob)) {
+      return input;
+    }
+
+    const form = new FormData();
+    for (const [key, value] of values) {
+      form.append(key, value instanceof Blob ? value : String(value));
+    }
+    return form;
+  }
+
+  // PDFs come back as binary data, the other formats as text
+  private async export(path: string, format: ExportFormat): Promise<string | Blob> {
+    return this.request('get', path, { responseType: format === 'pdf' ? 'blob' : 'text' });
+  }
+
+  private async request<T>(method: 'get' | 'post' | 'put' | 'delete', path: string, config: AxiosRequestConfig = {}): Promise<T> {
+    try {
+      // Writes are not retried: a retry after a timeout could create the same content twice
+      const send = () => this.client.request<T>({ method, url: path, ...config });
+      const response = method === 'get' || method === 'delete'
+        ? await withRetry(send, this.retryPolicy)
+        : await send();
+
+      return response.data;
+    } catch (error) {
+      console.error(`Error calling BookStack API ${method.toUpperCase()} ${path}:`, error);
+      this.handleError(error);
+    }
+  }
+
+  private handleError(error: unknown): never {
+    if (axios.isAxiosError(error)) {
+      const axiosError = error as AxiosError<BookStackErrorResponse>;
+      if (axiosError.response) {
+        const details = axiosError.response.data?.error;
+        const validation = details?.validation ? ` (${Object.values(details.validation).flat().join(' ')})` : '';
+        throw new Error(`BookStack API Error: ${axiosError.response.status} - ${details?.message || axiosError.message}${validation}`);
+      } else if (axiosError.request) {
+        throw new Error('No response received from BookStack');
+      }
+      throw new Error(`Request Error: ${axiosError.message}`);
+    }
+    throw error;
+  }
+}
+
+export default BookStackApi;
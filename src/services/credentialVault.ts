@@ -0,0 +1,156 @@
+// Local storage key for the encrypted credentials, kept across browser sessions
+const VAULT_STORAGE_KEY = 'bookstack_sync_vault';
+
+// PBKDF2 work factor; raising it only affects vaults created afterwards since it is stored with each vault
+const PBKDF2_ITERATIONS = 310000;
+
+// Shorter passphrases are refused when a vault is created, and cannot unlock one
+export const MIN_PASSPHRASE_LENGTH = 12;
+
+// What is kept in local storage: everything but the passphrase needed to decrypt the data
+interface StoredVault {
+  iterations: number;
+  salt: string;
+  iv: string;
+  data: string;
+}
+
+// Key derived from the passphrase, kept in memory only so later changes can be re-encrypted
+let unlockedKey: CryptoKey | null = null;
+
+// Vault writes run one after another in call order, so an older value cannot land after a newer one
+let writeQueue: Promise<void> = Promise.resolve();
+
+function queueWrite(write: () => Promise<void>): Promise<void> {
+  const result = writeQueue.then(write);
+  writeQueue = result.catch(() => undefined);
+  return result;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+function getStoredVault(): StoredVault | null {
+  try {
+    const vaultJson = localStorage.getItem(VAULT_STORAGE_KEY);
+    return vaultJson ? JSON.parse(vaultJson) : null;
+  } catch (error) {
+    console.error('Error getting credential vault from local storage:', error);
+    return null;
+  }
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  // WebCrypto is only exposed in secure contexts
+  if (!window.isSecureContext || !crypto.subtle) {
+    throw new Error('The credential vault needs the app to be served over HTTPS or from localhost');
+  }
+
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// A fresh IV for every write; reusing one with the same key would break AES-GCM
+async function encrypt(key: CryptoKey, salt: Uint8Array, iterations: number, value: unknown): Promise<StoredVault> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(value)));
+
+  return {
+    iterations,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    data: toBase64(new Uint8Array(data))
+  };
+}
+
+/**
+ * Check whether credentials were saved to the vault, locked or not
+ */
+export function isVaultEnabled(): boolean {
+  return getStoredVault() !== null;
+}
+
+/**
+ * Check whether the vault was unlocked in this page, so changes are saved to it
+ */
+export function isVaultUnlocked(): boolean {
+  return unlockedKey !== null && isVaultEnabled();
+}
+
+/**
+ * Encrypt the value with a new passphrase, replacing any existing vault, and keep it unlocked
+ */
+export async function createVault(passphrase: string, value: unknown): Promise<void> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters long`);
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+
+  await queueWrite(async () => {
+    const vault = await encrypt(key, salt, PBKDF2_ITERATIONS, value);
+    localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(vault));
+    unlockedKey = key;
+  });
+}
+
+/**
+ * Decrypt the vault with the passphrase and keep it unlocked for later updates
+ */
+export async function unlockVault<T>(passphrase: string): Promise<T> {
+  const vault = getStoredVault();
+  if (!vault) {
+    throw new Error('No credential vault found');
+  }
+
+  const key = await deriveKey(passphrase, fromBase64(vault.salt), vault.iterations);
+
+  let data: ArrayBuffer;
+  try {
+    data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(vault.iv) }, key, fromBase64(vault.data));
+  } catch {
+    // AES-GCM fails authentication when the key, and so the passphrase, is wrong
+    throw new Error('Incorrect passphrase');
+  }
+
+  unlockedKey = key;
+  return JSON.parse(new TextDecoder().decode(data));
+}
+
+/**
+ * Re-encrypt the vault with a new value once earlier writes are done; does nothing while the vault is locked
+ */
+export function updateVault(value: unknown): Promise<void> {
+  return queueWrite(async () => {
+    const key = unlockedKey;
+    const vault = getStoredVault();
+    if (!key || !vault) return;
+
+    const updated = await encrypt(key, fromBase64(vault.salt), vault.iterations, value);
+
+    // Deleted or replaced while encrypting
+    if (unlockedKey !== key) return;
+    localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(updated));
+  });
+}
+
+/**
+ * Delete the vault, going back to session-only credentials
+ */
+export function deleteVault(): void {
+  localStorage.removeItem(VAULT_STORAGE_KEY);
+  unlockedKey = null;
+}
@@ -0,0 +1,45 @@
+import { BookStackConfigDTO } from '../components/ConfigForm';
+
+// Id of the destination configured through the destination* fields of the config
+export const PRIMARY_DESTINATION_ID = 'primary';
+
+// A BookStack instance books are synced to
+export interface SyncDestination {
+  id: string;
+  name: string;
+  baseUrl: string;
+  tokenId: string;
+  tokenSecret: string;
+}
+
+/**
+ * Get every destination of a config, the primary one first.
+ * The primary destination is named after its host since the config has no name for it.
+ */
+export function getDestinations(config: BookStackConfigDTO | null): SyncDestination[] {
+  if (!config) return [];
+
+  let primaryName = config.destinationBaseUrl;
+  try {
+    primaryName = new URL(config.destinationBaseUrl).host;
+  } catch {
+    // Keep the raw value for URLs that do not parse yet
+  }
+
+  const primary: SyncDestination = {
+    id: PRIMARY_DESTINATION_ID,
+    name: primaryName,
+    baseUrl: config.destinationBaseUrl,
+    tokenId: config.destinationTokenId,
+    tokenSecret: config.destinationTokenSecret
+  };
+
+  return [primary, ...(config.extraDestinations || [])];
+}
+
+/**
+ * Find a destination of a config by id, or null if it was removed
+ */
+export function findDestination(config: BookStackConfigDTO | null, destinationId: string = PRIMARY_DESTINATION_ID): SyncDestination | null {
+  return getDestinations(config).find(destination => destination.id === destinationId) || null;
+}
@@ -0,0 +1,7 @@
+/**
+ * Create a short id that is unique enough for profiles, destinations and idempotency keys.
+ * Not crypto.randomUUID, which is missing when the app is served over plain http.
+ */
+export function createId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
@@ -0,0 +1,89 @@
+import { AxiosError, AxiosHeaders } from 'axios';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getRetryDelay, isRetryableError, RetryPolicy, withRetry } from './retryPolicy';
+
+const policy: RetryPolicy = { maxRetries: 2, baseDelayMs: 100, maxDelayMs: 1000 };
+
+function responseError(status: number, headers: Record<string, string> = {}): AxiosError {
+  const config = { headers: new AxiosHeaders() };
+  return new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', config, null, {
+    status,
+    statusText: '',
+    headers,
+    config,
+    data: null
+  });
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe('isRetryableError', () => {
+  it('retries rate limiting and gateway errors only', () => {
+    for (const status of [429, 502, 503, 504]) {
+      expect(isRetryableError(responseError(status))).toBe(true);
+    }
+    for (const status of [400, 401, 404, 409, 500]) {
+      expect(isRetryableError(responseError(status))).toBe(false);
+    }
+  });
+
+  it('retries timeouts but not other failures without a response', () => {
+    expect(isRetryableError(new AxiosError('timeout', 'ECONNABORTED'))).toBe(true);
+    expect(isRetryableError(new AxiosError('timeout', 'ETIMEDOUT'))).toBe(true);
+    expect(isRetryableError(new AxiosError('canceled', 'ERR_CANCELED'))).toBe(false);
+    expect(isRetryableError(new Error('not an axios error'))).toBe(false);
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('backs off exponentially with jitter, up to the maximum', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    expect(getRetryDelay(responseError(503), 1, policy)).toBe(100);
+    expect(getRetryDelay(responseError(503), 3, policy)).toBe(400);
+    expect(getRetryDelay(responseError(503), 10, policy)).toBe(1000);
+
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(getRetryDelay(responseError(503), 3, policy)).toBe(200);
+  });
+
+  it('uses Retry-After in seconds or as a date, capped at the maximum', () => {
+    expect(getRetryDelay(responseError(429, { 'retry-after': '0.5' }), 1, policy)).toBe(500);
+    expect(getRetryDelay(responseError(429, { 'retry-after': '3600' }), 1, policy)).toBe(1000);
+
+    vi.useFakeTimers({ now: new Date('2024-01-01T00:00:00Z') });
+    expect(getRetryDelay(responseError(429, { 'retry-after': 'Mon, 01 Jan 2024 00:00:00 GMT' }), 1, policy)).toBe(0);
+    expect(getRetryDelay(responseError(429, { 'retry-after': 'Tue, 02 Jan 2024 00:00:00 GMT' }), 1, policy)).toBe(1000);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries up to maxRetries times and rethrows the last failure', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const error = responseError(503);
+    const request = vi.fn().mockRejectedValue(error);
+    const onRetry = vi.fn();
+
+    await expect(withRetry(request, { ...policy, baseDelayMs: 0 }, onRetry)).rejects.toBe(error);
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([attempt, maxRetries]) => [attempt, maxRetries])).toEqual([[1, 2], [2, 2]]);
+  });
+
+  it('returns the first success', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const request = vi.fn().mockRejectedValueOnce(responseError(502)).mockResolvedValue('ok');
+
+    await expect(withRetry(request, { ...policy, baseDelayMs: 0 })).resolves.toBe('ok');
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry errors that are not transient', async () => {
+    const error = responseError(404);
+    const request = vi.fn().mockRejectedValue(error);
+
+    await expect(withRetry(request, policy)).rejects.toBe(error);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,84 @@
+import axios from 'axios';
+
+// How often and how long to wait before retrying a failed request
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// Called before each retry with the 1-based retry number
+export type RetryListener = (attempt: number, maxRetries: number, delayMs: number) => void;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+// Rate limiting and gateway errors that usually go away on their own
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+
+// Axios error codes for requests that timed out
+const TIMEOUT_ERROR_CODES = ['ECONNABORTED', 'ETIMEDOUT'];
+
+/**
+ * Check whether a failed request is worth retrying
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!axios.isAxiosError(error)) return false;
+
+  if (error.response) {
+    return RETRYABLE_STATUSES.includes(error.response.status);
+  }
+  return TIMEOUT_ERROR_CODES.includes(error.code || '');
+}
+
+/**
+ * Read the Retry-After header, given either in seconds or as an HTTP date
+ */
+function getRetryAfterMs(error: unknown): number | null {
+  if (!axios.isAxiosError(error)) return null;
+
+  const retryAfter = error.response?.headers?.['retry-after'];
+  if (!retryAfter) return null;
+
+  const seconds = Number(retryAfter);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+
+  const date = new Date(retryAfter).getTime();
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Get the delay before a retry: the server's Retry-After if given, capped at the policy's maximum,
+ * otherwise exponential backoff with jitter so parallel clients do not retry in lockstep
+ */
+export function getRetryDelay(error: unknown, attempt: number, policy: RetryPolicy): number {
+  const retryAfter = getRetryAfterMs(error);
+  if (retryAfter !== null) return Math.min(policy.maxDelayMs, retryAfter);
+
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return backoff / 2 + Math.random() * backoff / 2;
+}
+
+/**
+ * Run a request, retrying transient failures according to the policy.
+ * Non-retryable errors and the last failure are rethrown unchanged.
+ */
+export async function withRetry<T>(request: () => Promise<T>, policy: RetryPolicy, onRetry?: RetryListener): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (attempt > policy.maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(error, attempt, policy);
+      console.warn(`Request failed, retrying (${attempt}/${policy.maxRetries}) in ${Math.round(delay)}ms`);
+      onRetry?.(attempt, policy.maxRetries, delay);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
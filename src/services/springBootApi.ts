@@ -1,6 +1,13 @@
-import axios, { AxiosError } from 'axios';
-import { Book } from './bookstackApi';
+import axios, { AxiosError, AxiosResponse } from 'axios';
+import { Book, Page, Shelf } from './bookstackApi';
 import { BookStackConfigDTO } from '../components/ConfigForm';
+import { DEFAULT_RETRY_POLICY, RetryListener, RetryPolicy, withRetry } from './retryPolicy';
+import { DEFAULT_WORKER_POOL_SETTINGS, WorkerPoolSettings, clampConcurrency, runWithConcurrency } from './workerPool';
+import { PRIMARY_DESTINATION_ID, findDestination } from './destinations';
+import { createVault, deleteVault, isVaultUnlocked, unlockVault, updateVault } from './credentialVault';
+import { AUTH_EXPIRED_EVENT } from './authApi';
+import { TagRules } from './tagRules';
+import { createId } from './ids';
 
 // Use relative URLs instead of hardcoded localhost URLs
 // This will make API requests go to the same host that serves the frontend
@@ -9,49 +16,364 @@ const SPRING_BOOT_API_URL = '/api/sync';
 // Debug API URL
 const DEBUG_API_URL = '/api/debug';
 
-// Session storage key for configuration
+// Session storage key for the single configuration saved before profiles existed
 const CONFIG_SESSION_STORAGE_KEY = 'bookstack_sync_config_session';
 
+// Session storage keys for the named sync profiles and the one in use
+const PROFILES_SESSION_STORAGE_KEY = 'bookstack_sync_profiles_session';
+const ACTIVE_PROFILE_SESSION_STORAGE_KEY = 'bookstack_sync_active_profile_session';
+
+// Local storage key for sync jobs still running on the server, so they survive a page reload.
+// Maps job id to source book id, since a book synced to several destinations has one job per destination.
+const ACTIVE_JOBS_STORAGE_KEY = 'bookstack_sync_active_job_books';
+
 // Timeout in milliseconds (5 minutes)
 const API_TIMEOUT = 300000;
 
+// Queuing, reading and cancelling a job answer right away, unlike the sync itself
+const JOB_REQUEST_TIMEOUT = 30000;
+
+// Polling interval used when the job progress stream is unavailable
+const JOB_POLL_INTERVAL = 2000;
+
+// Sessions are replaced this long before they expire, so one does not run out mid-request
+const SESSION_REFRESH_MARGIN = 60000;
+
 interface ApiErrorResponse {
   message?: string;
   error?: string;
   status?: string;
 }
 
-// Define a type for headers to avoid TypeScript errors
+// Define a type for headers to avoid TypeScript errors.
+// Credentials never go in headers; requests only carry the id of a backend session holding them.
 interface ApiHeaders {
-  'X-Source-Url'?: string;
-  'X-Source-Token'?: string;
-  'X-Source-Token-Id'?: string;
-  'X-Destination-Url'?: string;
-  'X-Destination-Token'?: string;
-  'X-Destination-Token-Id'?: string;
+  'X-Sync-Session'?: string;
   [key: string]: string | undefined;
 }
 
+// Credentials posted once to open a session
+interface SessionCredentials {
+  sourceBaseUrl?: string;
+  sourceTokenId?: string;
+  sourceTokenSecret?: string;
+  destinationBaseUrl?: string;
+  destinationTokenId?: string;
+  destinationTokenSecret?: string;
+}
+
+// Short-lived opaque session handed out by the backend in exchange for credentials
+interface SyncSession {
+  sessionId: string;
+  expiresAt: string;
+}
+
+// Which credentials an operation cannot do without
+type CredentialScope = 'source' | 'destination' | 'both';
+
+// A named source/destination pair, e.g. "staging → prod"
+export interface SyncProfile {
+  id: string;
+  name: string;
+  // Null until the profile has been configured
+  config: BookStackConfigDTO | null;
+}
+
+// Chapters and pages to include when only part of a book is synced
+export interface SyncSelection {
+  chapterIds: number[];
+  pageIds: number[];
+}
+
+// Optional settings for a single book sync
+export interface SyncBookOptions {
+  // Omit to sync the whole book
+  selection?: SyncSelection;
+  // Destination copy to update, as paired by its sync_source_id tag; omit to let the backend look it up
+  destinationBookId?: number;
+  // Destination to sync to, from the active profile; the primary destination when unset
+  destinationId?: string;
+  // Both kinds of assets are copied when unset
+  assets?: AssetSyncOptions;
+  // Tag rules of the active profile; the backend skips books they exclude and strips matching tags
+  tagRules?: TagRules;
+}
+
+// Which uploaded files a sync copies along with the pages that use them.
+// Copied assets get their page HTML and markdown links rewritten to the destination copy.
+export interface AssetSyncOptions {
+  attachments: boolean;
+  images: boolean;
+}
+
+// 'full' rewrites every selected page, 'delta' only those changed since the destination copy,
+// 'two-way' also pulls destination edits back to the source
+export type SyncMode = 'full' | 'delta' | 'two-way';
+
+// A page edited on both instances since the last sync
+export interface SyncConflict {
+  // Source book the page belongs to
+  bookId: number;
+  sourcePage: Page;
+  destinationPage: Page;
+}
+
+export type ConflictChoice = 'keep-source' | 'keep-destination' | 'keep-both';
+
+export interface ConflictResolution {
+  sourcePageId: number;
+  destinationPageId: number;
+  choice: ConflictChoice;
+}
+
+// What a sync would do to one book, chapter or page on the destination
+export type SyncPlanAction = 'create' | 'update' | 'delete' | 'skip';
+
+export interface SyncPlanItem {
+  type: 'book' | 'chapter' | 'page' | 'attachment' | 'image';
+  action: SyncPlanAction;
+  name: string;
+  // Source book the item belongs to
+  bookId: number;
+  // Absent for items that only exist on the destination
+  sourceId?: number;
+  // Absent for items that do not exist on the destination yet
+  destinationId?: number;
+}
+
+// Result of a dry run: nothing is written to the destination
+export interface SyncPlan {
+  items: SyncPlanItem[];
+}
+
+// Lets the caller follow retries and abort a request that is still running
+export interface RequestControl {
+  signal?: AbortSignal;
+  onRetry?: RetryListener;
+}
+
+export type SyncJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// A book sync running on the server, reported by the job progress stream
+export interface SyncJob {
+  id: string;
+  // Source book being synced
+  bookId: number;
+  mode: SyncMode;
+  // Destination the job writes to, echoed back from the submitted options
+  destinationId?: string;
+  status: SyncJobStatus;
+  pagesDone: number;
+  pagesTotal: number;
+  error?: string;
+  createdAt: string;
+  // Set once the job has finished
+  report?: SyncReport;
+}
+
+// How many items of one kind a sync created, updated, deleted or left alone
+export interface SyncReportCounts {
+  created: number;
+  updated: number;
+  deleted: number;
+  skipped: number;
+}
+
+// Uploaded files a sync handled; skipped ones already existed on the destination with the same content hash
+export interface AssetSyncCounts {
+  copied: number;
+  skipped: number;
+  failed: number;
+}
+
+// A link or include in a synced page whose target has no destination copy yet, so it still points at the source
+export interface UnresolvedReference {
+  // Source page containing the reference
+  pageId: number;
+  pageName: string;
+  // 'link' for page, chapter and book URLs, 'include' for {{@123}} include tags
+  kind: 'link' | 'include';
+  // As written in the source page, e.g. "/books/handbook/page/setup" or "{{@123#bkmrk-intro}}"
+  reference: string;
+}
+
+// Result of the link rewriting pass over pages already on a destination
+export interface LinkRewriteResult {
+  destinationId: string;
+  pagesUpdated: number;
+  linksRewritten: number;
+  unresolved: UnresolvedReference[];
+}
+
+// Outcome of syncing one book to one destination, returned by the sync calls and kept by the UI as history
+export interface SyncReport {
+  bookId: number;
+  destinationId?: string;
+  // Destination copy the sync wrote to
+  destinationBookId?: number;
+  mode: SyncMode;
+  status: 'completed' | 'failed' | 'cancelled';
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  chapters: SyncReportCounts;
+  pages: SyncReportCounts;
+  // Missing from reports of backends without asset syncing, and from reports kept before it existed
+  attachments?: AssetSyncCounts;
+  images?: AssetSyncCounts;
+  // Links and includes pointing at other synced content, mapped to their destination ids and slugs; missing from the same reports
+  links?: { rewritten: number; unresolved: UnresolvedReference[] };
+  // Problems that did not stop the sync, e.g. an image that could not be copied
+  warnings: string[];
+  error?: string;
+}
+
+// Books a schedule syncs: a fixed list of book ids, or every source book carrying a tag
+export interface ScheduleBookFilter {
+  bookIds?: number[];
+  tagName?: string;
+  // Matches any value of the tag when unset
+  tagValue?: string;
+}
+
+export type ScheduleStatus = 'active' | 'paused';
+
+// Outcome of the most recent run of a schedule
+export interface ScheduleRunResult {
+  startedAt: string;
+  finishedAt?: string;
+  status: SyncJobStatus;
+  booksSynced: number;
+  booksFailed: number;
+  error?: string;
+}
+
+// A recurring sync run by the server on a cron expression, without anyone pressing the button
+export interface SyncSchedule {
+  id: string;
+  name: string;
+  // Standard five-field cron expression, e.g. "0 2 * * *" for every night at 02:00
+  cron: string;
+  mode: SyncMode;
+  books: ScheduleBookFilter;
+  // Tag rules of the profile the schedule was created in, applied on every run
+  tagRules?: TagRules;
+  status: ScheduleStatus;
+  nextRunAt?: string;
+  lastRun?: ScheduleRunResult;
+}
+
+export type NewSyncSchedule = Pick<SyncSchedule, 'name' | 'cron' | 'mode' | 'books' | 'tagRules'>;
+
+// Outcome of recreating a source shelf on one destination
+export interface ShelfSyncResult {
+  shelfId: number;
+  destinationId: string;
+  destinationShelfId: number;
+  // Whether the destination shelf was created rather than updated
+  created: boolean;
+  // Destination copies of the shelf's books, in shelf order
+  books: Array<{ bookId: number; destinationBookId: number }>;
+  // Books of the shelf without a destination copy, left off the destination shelf
+  missingBookIds: number[];
+}
+
+// Why a snapshot was taken
+export type SnapshotReason = 'destroy' | 'delete' | 'sync';
+
+// Archive of destination books taken before they were deleted or overwritten.
+// It holds the book, chapter and page JSON, page HTML and markdown, and attachments.
+export interface DestinationSnapshot {
+  id: string;
+  createdAt: string;
+  reason: SnapshotReason;
+  destinationId: string;
+  books: Array<{ id: number; name: string }>;
+  sizeBytes: number;
+}
+
+// Outcome of restoring one book of a snapshot; restored books get new ids on the destination
+export interface SnapshotRestoreItem {
+  snapshotBookId: number;
+  name: string;
+  bookId?: number;
+  error?: string;
+}
+
+export type AuditAction = 'sync' | 'delete' | 'destroy' | 'restore' | 'shelf';
+
+export type AuditItemResult = 'succeeded' | 'failed' | 'cancelled' | 'conflicts';
+
+// Outcome of an audited action for one book; shelf entries hold the shelf, once per destination
+export interface AuditItem {
+  bookId: number;
+  bookName: string;
+  result: AuditItemResult;
+  // Destination the book was synced to or deleted from
+  destinationId?: string;
+  error?: string;
+}
+
+// One entry of the append-only audit log; the server stamps the id, time and logged in user
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  user: string;
+  profile: string;
+  action: AuditAction;
+  mode?: SyncMode;
+  items: AuditItem[];
+}
+
+export type NewAuditEntry = Pick<AuditEntry, 'profile' | 'action' | 'mode' | 'items'>;
+
+// Narrows the audit log; every field is optional
+export interface AuditFilter {
+  action?: AuditAction;
+  user?: string;
+  profile?: string;
+  // ISO dates, inclusive
+  from?: string;
+  to?: string;
+}
+
 // Create axios instance with default config
 const apiClient = axios.create({
   headers: {
     'Content-Type': 'application/json',
     'Accept': 'application/json'
   },
-  // Don't send cookies with requests
+  // Only affects cross-origin requests; the API is served from the same origin, so the login cookie
+  // goes with every request and authenticates the job and schedule calls that carry no sync session
   withCredentials: false,
   // Set timeout to 5 minutes
   timeout: API_TIMEOUT
 });
 
+// Sessions by profile and destination id, shared by every SpringBootApi instance
+const syncSessions = new Map<string, Promise<SyncSession>>();
+
+// A session the backend no longer knows, e.g. after a restart, is dropped so the next call opens a new one.
+// Any other 401 may mean the login expired, which the auth gate checks.
+apiClient.interceptors.response.use(undefined, error => {
+  if (axios.isAxiosError(error) && error.response?.status === 401) {
+    if (error.config?.headers?.['X-Sync-Session']) {
+      syncSessions.clear();
+    } else {
+      window.dispatchEvent(new CustomEvent(AUTH_EXPIRED_EVENT));
+    }
+  }
+  return Promise.reject(error);
+});
+
 class SpringBootApi {
   /**
-   * Get the current configuration from session storage
+   * Get the configuration of the active profile from session storage
    */
   async getConfig(): Promise<BookStackConfigDTO | null> {
     try {
-      const configJson = sessionStorage.getItem(CONFIG_SESSION_STORAGE_KEY);
-      return configJson ? JSON.parse(configJson) : null;
+      const profile = await this.getActiveProfile();
+      return profile.config;
     } catch (error) {
       console.error('Error getting config from session storage:', error);
       return null;
@@ -59,51 +381,149 @@ class SpringBootApi {
   }
 
   /**
-   * Save configuration to session storage
+   * Save configuration of the active profile to session storage
    */
   async saveConfig(config: BookStackConfigDTO): Promise<void> {
     try {
+      const profiles = await this.listProfiles();
+      const active = await this.getActiveProfile();
+      
       // Save to session storage (persists during browser session but clears on tab close)
-      sessionStorage.setItem(CONFIG_SESSION_STORAGE_KEY, JSON.stringify(config));
+      await this.saveProfiles(profiles.map(profile => profile.id === active.id ? { ...profile, config } : profile));
       
-      // No need to send to backend anymore as we'll pass credentials with each request
-      return Promise.resolve();
+      // Sessions opened with the old credentials must not be used any more
+      this.closeSyncSessions();
     } catch (error) {
       this.handleError(error);
     }
   }
 
+  /**
+   * List the saved sync profiles.
+   * A configuration saved before profiles existed becomes the "Default" profile.
+   */
+  async listProfiles(): Promise<SyncProfile[]> {
+    const profilesJson = sessionStorage.getItem(PROFILES_SESSION_STORAGE_KEY);
+    if (profilesJson) {
+      return JSON.parse(profilesJson);
+    }
+    
+    const configJson = sessionStorage.getItem(CONFIG_SESSION_STORAGE_KEY);
+    const profile: SyncProfile = {
+      id: createId(),
+      name: 'Default',
+      config: configJson ? JSON.parse(configJson) : null
+    };
+    await this.saveProfiles([profile]);
+    sessionStorage.setItem(ACTIVE_PROFILE_SESSION_STORAGE_KEY, profile.id);
+    sessionStorage.removeItem(CONFIG_SESSION_STORAGE_KEY);
+    
+    return [profile];
+  }
+
+  /**
+   * Get the profile whose source and destination are currently used
+   */
+  async getActiveProfile(): Promise<SyncProfile> {
+    const profiles = await this.listProfiles();
+    const activeId = sessionStorage.getItem(ACTIVE_PROFILE_SESSION_STORAGE_KEY);
+    return profiles.find(profile => profile.id === activeId) || profiles[0];
+  }
+
+  /**
+   * Switch to another profile; callers should fire CONFIG_UPDATED_EVENT afterwards
+   */
+  async setActiveProfile(profileId: string): Promise<void> {
+    const profiles = await this.listProfiles();
+    if (!profiles.some(profile => profile.id === profileId)) {
+      throw new Error(`Profile ${profileId} not found`);
+    }
+    sessionStorage.setItem(ACTIVE_PROFILE_SESSION_STORAGE_KEY, profileId);
+  }
+
+  /**
+   * Create a profile as a copy of the active one and switch to it
+   */
+  async createProfile(name: string): Promise<SyncProfile> {
+    const profiles = await this.listProfiles();
+    const active = await this.getActiveProfile();
+    
+    const profile: SyncProfile = { id: createId(), name, config: active.config };
+    await this.saveProfiles([...profiles, profile]);
+    sessionStorage.setItem(ACTIVE_PROFILE_SESSION_STORAGE_KEY, profile.id);
+    
+    return profile;
+  }
+
+  /**
+   * Rename a profile
+   */
+  async renameProfile(profileId: string, name: string): Promise<void> {
+    const profiles = await this.listProfiles();
+    await this.saveProfiles(profiles.map(profile => profile.id === profileId ? { ...profile, name } : profile));
+  }
+
+  /**
+   * Delete a profile; the last remaining profile cannot be deleted
+   */
+  async deleteProfile(profileId: string): Promise<void> {
+    const profiles = await this.listProfiles();
+    if (profiles.length <= 1) {
+      throw new Error('At least one profile is required');
+    }
+    
+    const remaining = profiles.filter(profile => profile.id !== profileId);
+    await this.saveProfiles(remaining);
+    if (sessionStorage.getItem(ACTIVE_PROFILE_SESSION_STORAGE_KEY) === profileId) {
+      sessionStorage.setItem(ACTIVE_PROFILE_SESSION_STORAGE_KEY, remaining[0].id);
+    }
+  }
+
+  /**
+   * Save every profile to an encrypted vault in local storage, so credentials survive closing the tab.
+   * Later profile changes are written to the vault too while it stays unlocked.
+   */
+  async enableVault(passphrase: string): Promise<void> {
+    const profiles = await this.listProfiles();
+    await createVault(passphrase, profiles);
+  }
+
+  /**
+   * Decrypt the vault and load its profiles into this session; fire CONFIG_UPDATED_EVENT afterwards
+   */
+  async unlockVault(passphrase: string): Promise<void> {
+    const profiles = await unlockVault<SyncProfile[]>(passphrase);
+    if (profiles.length === 0) return;
+    
+    sessionStorage.setItem(PROFILES_SESSION_STORAGE_KEY, JSON.stringify(profiles));
+    this.closeSyncSessions();
+    const activeId = sessionStorage.getItem(ACTIVE_PROFILE_SESSION_STORAGE_KEY);
+    if (!profiles.some(profile => profile.id === activeId)) {
+      sessionStorage.setItem(ACTIVE_PROFILE_SESSION_STORAGE_KEY, profiles[0].id);
+    }
+  }
+
+  /**
+   * Delete the vault; credentials of this session stay in session storage only
+   */
+  disableVault(): void {
+    deleteVault();
+  }
+
   /**
    * List all books from the source BookStack instance
    */
   async listBooks(): Promise<Book[]> {
     try {
-      const config = await this.getConfig();
-      const headers: ApiHeaders = {};
-      
-      if (!config) {
-        console.error('No configuration found when trying to list books');
-        throw new Error('Configuration is missing');
-      }
-      
-      // Ensure all required source credentials are present
-      if (!config.sourceBaseUrl || !config.sourceTokenSecret || !config.sourceTokenId) {
-        console.error('Source credentials are incomplete for listing books');
-        throw new Error('Source credentials are incomplete');
-      }
-      
-      // Add source credentials to headers
-      headers['X-Source-Url'] = config.sourceBaseUrl;
-      headers['X-Source-Token'] = config.sourceTokenSecret;
-      headers['X-Source-Token-Id'] = config.sourceTokenId;
+      const headers = await this.getSessionHeaders('listing books', 'source');
       
-      console.log('Listing books with headers:', Object.keys(headers));
+      console.log('Listing books');
       
       // Use apiClient instead of axios directly to benefit from the timeout setting
-      const response = await apiClient.get(`${SPRING_BOOT_API_URL}/books`, { 
+      const response = await this.withRetry(() => apiClient.get(`${SPRING_BOOT_API_URL}/books`, { 
         headers,
         timeout: API_TIMEOUT
-      });
+      }));
       
       console.log('Books list response:', response.status, response.data?.length || 0, 'books');
       return response.data;
@@ -118,118 +538,501 @@ class SpringBootApi {
    */
   async getBook(id: number): Promise<Book> {
     try {
-      const config = await this.getConfig();
-      const headers: ApiHeaders = {};
+      const headers = await this.getSessionHeaders(`getting book ${id}`, 'source');
       
-      if (!config) {
-        console.error(`No configuration found when trying to get book ${id}`);
-        throw new Error('Configuration is missing');
-      }
+      console.log(`Getting book ${id}`);
       
-      // Ensure all required source credentials are present
-      if (!config.sourceBaseUrl || !config.sourceTokenSecret || !config.sourceTokenId) {
-        console.error(`Source credentials are incomplete for getting book ${id}`);
-        throw new Error('Source credentials are incomplete');
-      }
+      const response = await this.withRetry(() => apiClient.get(`${SPRING_BOOT_API_URL}/books/${id}`, { 
+        headers,
+        timeout: API_TIMEOUT
+      }));
+      
+      console.log(`Book ${id} response:`, response.status);
+      return response.data;
+    } catch (error) {
+      console.error(`Error getting book ${id}:`, error);
+      this.handleError(error);
+    }
+  }
+
+  /**
+   * List the shelves of the source BookStack instance, each with its books in shelf order
+   */
+  async listShelves(): Promise<Shelf[]> {
+    try {
+      const headers = await this.getSessionHeaders('listing shelves', 'source');
+      
+      console.log('Listing shelves');
+      
+      const response = await this.withRetry(() => apiClient.get(`${SPRING_BOOT_API_URL}/shelves`, { 
+        headers,
+        timeout: API_TIMEOUT
+      }));
+      
+      console.log('Shelves list response:', response.status, response.data?.length || 0, 'shelves');
+      return response.data;
+    } catch (error) {
+      console.error('Error listing shelves:', error);
+      this.handleError(error);
+    }
+  }
+
+  /**
+   * Create or update the destination copy of a source shelf, with the destination copies of its books in the same order.
+   * The books themselves are synced beforehand; books without a destination copy are left off the shelf.
+   */
+  async syncShelf(shelfId: number, destinationId: string = PRIMARY_DESTINATION_ID): Promise<ShelfSyncResult> {
+    try {
+      const headers = await this.getSessionHeaders('shelf sync', 'both', destinationId);
+      
+      console.log(`Syncing shelf ${shelfId}`);
+      
+      // Not retried: a retry after a timeout could create the shelf twice
+      const response = await apiClient.post(`${SPRING_BOOT_API_URL}/shelves/${shelfId}`, { destinationId }, { 
+        headers,
+        timeout: API_TIMEOUT
+      });
       
-      // Add source credentials to headers
-      headers['X-Source-Url'] = config.sourceBaseUrl;
-      headers['X-Source-Token'] = config.sourceTokenSecret;
-      headers['X-Source-Token-Id'] = config.sourceTokenId;
+      console.log(`Shelf ${shelfId} sync response:`, response.status);
+      return response.data;
+    } catch (error) {
+      console.error(`Error syncing shelf ${shelfId}:`, error);
+      this.handleError(error);
+    }
+  }
+
+  /**
+   * Rewrite cross-references in every page already synced to a destination.
+   * A sync rewrites the pages it writes; this catches links to books that were synced later.
+   */
+  async rewriteLinks(destinationId: string = PRIMARY_DESTINATION_ID): Promise<LinkRewriteResult> {
+    try {
+      const headers = await this.getSessionHeaders('link rewriting', 'both', destinationId);
       
-      console.log(`Getting book ${id} with headers:`, Object.keys(headers));
+      console.log(`Rewriting links on destination ${destinationId}`);
       
-      const response = await apiClient.get(`${SPRING_BOOT_API_URL}/books/${id}`, { 
+      // Not retried: after a timeout the first pass may still be running, and a retry would start a second one
+      const response = await apiClient.post(`${SPRING_BOOT_API_URL}/links/rewrite`, { destinationId }, { 
         headers,
         timeout: API_TIMEOUT
       });
       
-      console.log(`Book ${id} response:`, response.status);
+      console.log(`Link rewrite response:`, response.status, response.data?.linksRewritten, 'links rewritten');
       return response.data;
     } catch (error) {
-      console.error(`Error getting book ${id}:`, error);
+      console.error(`Error rewriting links on destination ${destinationId}:`, error);
       this.handleError(error);
     }
   }
 
   /**
-   * Sync a book from source to destination
+   * List the pages of a book that changed on both source and destination since the last sync
    */
-  async syncBook(sourceBookId: number): Promise<void> {
+  async getSyncConflicts(sourceBookId: number, options: SyncBookOptions = {}, control: RequestControl = {}): Promise<SyncConflict[]> {
     try {
-      const config = await this.getConfig();
-      const headers: ApiHeaders = {};
+      const headers = await this.getSessionHeaders('conflict detection', 'both', options.destinationId);
       
-      if (!config) {
-        console.error('No configuration found when trying to sync book');
-        throw new Error('Configuration is missing');
-      }
+      console.log(`Checking book ${sourceBookId} for conflicts`);
       
-      // Ensure all required credentials are present
-      if (!config.sourceBaseUrl || !config.sourceTokenSecret || !config.sourceTokenId ||
-          !config.destinationBaseUrl || !config.destinationTokenSecret || !config.destinationTokenId) {
-        console.error('Credentials are incomplete for book sync');
-        throw new Error('Source or destination credentials are incomplete');
+      const response = await this.withRetry(() => apiClient.post(`${SPRING_BOOT_API_URL}/books/${sourceBookId}/conflicts`, options, { 
+        headers,
+        timeout: API_TIMEOUT,
+        signal: control.signal
+      }), control.onRetry);
+      
+      console.log(`Book ${sourceBookId} conflicts response:`, response.status, response.data?.length || 0, 'conflicts');
+      return response.data;
+    } catch (error) {
+      console.error(`Error checking book ${sourceBookId} for conflicts:`, error);
+      this.handleError(error);
+    }
+  }
+
+  /**
+   * Queue a book sync on the server and return the job right away.
+   * The job keeps running if the tab is closed; its id is kept in local storage until it finishes.
+   */
+  async submitSyncJob(sourceBookId: number, mode: SyncMode, options: SyncBookOptions = {}, resolutions: ConflictResolution[] = [], control: RequestControl = {}): Promise<SyncJob> {
+    try {
+      const headers = await this.getSessionHeaders('sync job submission', 'both', options.destinationId);
+      
+      console.log(`Submitting ${mode} sync job for book ${sourceBookId}`);
+      
+      // Every attempt carries the same key, so the backend answers a retry of a request it already
+      // accepted with the job it queued then instead of queuing a second one
+      const idempotencyKey = createId();
+      const response = await this.withRetry(() => apiClient.post(`${SPRING_BOOT_API_URL}/jobs`, { bookId: sourceBookId, mode, ...options, resolutions }, { 
+        headers: { ...headers, 'Idempotency-Key': idempotencyKey },
+        timeout: JOB_REQUEST_TIMEOUT,
+        signal: control.signal
+      }), control.onRetry);
+      
+      const job: SyncJob = response.data;
+      this.saveActiveSyncJob(job.id, job.bookId);
+      
+      console.log(`Book ${sourceBookId} sync job response:`, response.status, job.id);
+      return job;
+    } catch (error) {
+      console.error(`Error submitting sync job for book ${sourceBookId}:`, error);
+      this.handleError(error);
+    }
+  }
+
+  /**
+   * Get the current state of a sync job
+   */
+  async getSyncJob(jobId: string): Promise<SyncJob> {
+    try {
+      const response = await this.withRetry(() => apiClient.get(`${SPRING_BOOT_API_URL}/jobs/${jobId}`, { 
+        timeout: JOB_REQUEST_TIMEOUT
+      }));
+      
+      return response.data;
+    } catch (error) {
+      // The server no longer knows the job, e.g. after a restart, so stop following it on every page load
+      if (axios.isAxiosError(error) && (error.response?.status === 404 || error.response?.status === 410)) {
+        this.removeActiveSyncJob(jobId);
       }
+      console.error(`Error getting sync job ${jobId}:`, error);
+      this.handleError(error);
+    }
+  }
+
+  /**
+   * Follow a sync job until it finishes, calling onProgress with every update.
+   * Listens to the server-sent event stream and falls back to polling if the stream drops.
+   * Aborting the signal stops watching; the job itself keeps running on the server.
+   */
+  watchSyncJob(jobId: string, onProgress: (job: SyncJob) => void, signal?: AbortSignal): Promise<SyncJob> {
+    return new Promise((resolve, reject) => {
+      let pollTimer: ReturnType<typeof setTimeout> | undefined;
+      
+      const finish = (job: SyncJob) => {
+        signal?.removeEventListener('abort', stop);
+        this.removeActiveSyncJob(job.id);
+        resolve(job);
+      };
       
-      // Add source credentials to headers
-      headers['X-Source-Url'] = config.sourceBaseUrl;
-      headers['X-Source-Token'] = config.sourceTokenSecret;
-      headers['X-Source-Token-Id'] = config.sourceTokenId;
+      const poll = async () => {
+        try {
+          const job = await this.getSyncJob(jobId);
+          if (signal?.aborted) return;
+          onProgress(job);
+          if (this.isJobFinished(job)) {
+            finish(job);
+          } else {
+            pollTimer = setTimeout(poll, JOB_POLL_INTERVAL);
+          }
+        } catch (error) {
+          reject(error);
+        }
+      };
       
-      // Add destination credentials
-      headers['X-Destination-Url'] = config.destinationBaseUrl;
-      headers['X-Destination-Token'] = config.destinationTokenSecret;
-      headers['X-Destination-Token-Id'] = config.destinationTokenId;
+      const events = new EventSource(`${SPRING_BOOT_API_URL}/jobs/${jobId}/events`);
       
-      console.log(`Syncing book ${sourceBookId} with headers:`, Object.keys(headers));
+      const stop = () => {
+        events.close();
+        clearTimeout(pollTimer);
+        reject(new Error(`Stopped watching sync job ${jobId}`));
+      };
+      signal?.addEventListener('abort', stop);
       
-      // Send an empty object as the request body
-      const response = await apiClient.post(`${SPRING_BOOT_API_URL}/books/${sourceBookId}`, null, { 
+      events.onmessage = (event: MessageEvent<string>) => {
+        let job: SyncJob;
+        try {
+          job = JSON.parse(event.data);
+        } catch (error) {
+          // A later frame or the final poll still brings the job up to date
+          console.warn(`Ignoring malformed progress event for sync job ${jobId}:`, event.data);
+          return;
+        }
+        onProgress(job);
+        if (this.isJobFinished(job)) {
+          events.close();
+          finish(job);
+        }
+      };
+      
+      events.onerror = () => {
+        console.warn(`Progress stream for sync job ${jobId} dropped, polling instead`);
+        events.close();
+        poll();
+      };
+    });
+  }
+
+  /**
+   * Ask the server to stop a queued or running sync job
+   */
+  async cancelSyncJob(jobId: string): Promise<void> {
+    try {
+      const response = await this.withDeleteRetry(() => apiClient.delete(`${SPRING_BOOT_API_URL}/jobs/${jobId}`, { 
+        timeout: JOB_REQUEST_TIMEOUT
+      }));
+      
+      console.log(`Sync job ${jobId} cancel response:`, response.status);
+      
+      // The job will not finish normally, so stop offering to follow it
+      this.removeActiveSyncJob(jobId);
+    } catch (error) {
+      console.error(`Error cancelling sync job ${jobId}:`, error);
+      this.handleError(error);
+    }
+  }
+
+  /**
+   * Get the sync jobs started from this browser that have not finished yet, as job id to source book id
+   */
+  getActiveSyncJobs(): {[key: string]: number} {
+    try {
+      const jobsJson = localStorage.getItem(ACTIVE_JOBS_STORAGE_KEY);
+      return jobsJson ? JSON.parse(jobsJson) : {};
+    } catch (error) {
+      console.error('Error getting active sync jobs from local storage:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Compute what syncing the given books would change on the destination, without writing anything
+   */
+  async previewSync(sourceBookIds: number[], optionsByBook: {[key: number]: SyncBookOptions} = {}, mode: SyncMode = 'full', destinationId: string = PRIMARY_DESTINATION_ID): Promise<SyncPlan> {
+    try {
+      const headers = await this.getSessionHeaders('sync preview', 'both', destinationId);
+      
+      console.log(`Previewing sync of ${sourceBookIds.length} books to destination ${destinationId}`);
+      
+      const books = sourceBookIds.map(bookId => ({ bookId, ...optionsByBook[bookId] }));
+      const response = await this.withRetry(() => apiClient.post(`${SPRING_BOOT_API_URL}/preview`, { books, mode }, { 
         headers,
         timeout: API_TIMEOUT
+      }));
+      
+      console.log('Sync preview response:', response.status, response.data?.items?.length || 0, 'items');
+      return response.data;
+    } catch (error) {
+      console.error('Error previewing sync:', error);
+      this.handleError(error);
+    }
+  }
+
+  /**
+   * List the recurring sync schedules, each with its last run result
+   */
+  async listSchedules(): Promise<SyncSchedule[]> {
+    try {
+      const response = await this.withRetry(() => apiClient.get(`${SPRING_BOOT_API_URL}/schedules`, { 
+        timeout: API_TIMEOUT
+      }));
+      
+      return response.data;
+    } catch (error) {
+      console.error('Error listing sync schedules:', error);
+      this.handleError(error);
+    }
+  }
+
+  /**
+   * Create a recurring sync schedule.
+   * A session expires, so the profile's credentials go in the body instead; the backend keeps them
+   * encrypted with the schedule to run it while nobody is logged in.
+   */
+  async createSchedule(schedule: NewSyncSchedule): Promise<SyncSchedule> {
+    try {
+      const { credentials } = await this.getProfileCredentials('schedule creation', 'both', PRIMARY_DESTINATION_ID);
+      
+      console.log(`Creating sync schedule "${schedule.name}" (${schedule.cron})`);
+      
+      const response = await apiClient.post(`${SPRING_BOOT_API_URL}/schedules`, { ...schedule, credentials }, { 
+        timeout: API_TIMEOUT
       });
       
-      console.log(`Book ${sourceBookId} sync response:`, response.status);
+      console.log('Create schedule response:', response.status, response.data?.id);
       return response.data;
     } catch (error) {
-      console.error(`Error syncing book ${sourceBookId}:`, error);
+      console.error('Error creating sync schedule:', error);
       this.handleError(error);
     }
   }
 
   /**
-   * Sync multiple books from source to destination
+   * Pause a schedule so it stops running until resumed
    */
-  async syncBooks(sourceBookIds: number[]): Promise<{[key: number]: boolean}> {
+  async pauseSchedule(scheduleId: string): Promise<SyncSchedule> {
     try {
-      const config = await this.getConfig();
-      const headers: ApiHeaders = {};
+      const response = await this.withRetry(() => apiClient.post(`${SPRING_BOOT_API_URL}/schedules/${scheduleId}/pause`, null, { 
+        timeout: API_TIMEOUT
+      }));
       
-      if (!config) {
-        console.error('No configuration found when trying to sync multiple books');
-        throw new Error('Configuration is missing');
-      }
+      return response.data;
+    } catch (error) {
+      console.error(`Error pausing sync schedule ${scheduleId}:`, error);
+      this.handleError(error);
+    }
+  }
+
+  /**
+   * Resume a paused schedule from its next cron time
+   */
+  async resumeSchedule(scheduleId: string): Promise<SyncSchedule> {
+    try {
+      const response = await this.withRetry(() => apiClient.post(`${SPRING_BOOT_API_URL}/schedules/${scheduleId}/resume`, null, { 
+        timeout: API_TIMEOUT
+      }));
       
-      // Ensure all required credentials are present
-      if (!config.sourceBaseUrl || !config.sourceTokenSecret || !config.sourceTokenId ||
-          !config.destinationBaseUrl || !config.destinationTokenSecret || !config.destinationTokenId) {
-        console.error('Credentials are incomplete for books sync');
-        throw new Error('Source or destination credentials are incomplete');
-      }
+      return response.data;
+    } catch (error) {
+      console.error(`Error resuming sync schedule ${scheduleId}:`, error);
+      this.handleError(error);
+    }
+  }
+
+  /**
+   * Delete a schedule; a run already in progress is left to finish
+   */
+  async deleteSchedule(scheduleId: string): Promise<void> {
+    try {
+      const response = await this.withDeleteRetry(() => apiClient.delete(`${SPRING_BOOT_API_URL}/schedules/${scheduleId}`, { 
+        timeout: API_TIMEOUT
+      }));
       
-      // Add source credentials to headers
-      headers['X-Source-Url'] = config.sourceBaseUrl;
-      headers['X-Source-Token'] = config.sourceTokenSecret;
-      headers['X-Source-Token-Id'] = config.sourceTokenId;
+      console.log(`Delete schedule ${scheduleId} response:`, response.status);
+    } catch (error) {
+      console.error(`Error deleting sync schedule ${scheduleId}:`, error);
+      this.handleError(error);
+    }
+  }
+
+  /**
+   * Export destination books to a snapshot archive on the server before they are changed.
+   * Without bookIds every book of the destination is included.
+   */
+  async createSnapshot(reason: SnapshotReason, bookIds?: number[], destinationId: string = PRIMARY_DESTINATION_ID): Promise<DestinationSnapshot> {
+    try {
+      const headers = await this.getSessionHeaders('destination snapshot', 'destination', destinationId);
       
-      // Add destination credentials
-      headers['X-Destination-Url'] = config.destinationBaseUrl;
-      headers['X-Destination-Token'] = config.destinationTokenSecret;
-      headers['X-Destination-Token-Id'] = config.destinationTokenId;
+      console.log(`Creating ${reason} snapshot of ${bookIds ? `${bookIds.length} destination books` : 'all destination books'}`);
       
-      console.log(`Syncing ${sourceBookIds.length} books with headers:`, Object.keys(headers));
+      // Not retried: a retry after a timeout would archive the same books again
+      const response = await apiClient.post(`${SPRING_BOOT_API_URL}/snapshots`, { reason, bookIds, destinationId }, { 
+        headers,
+        timeout: API_TIMEOUT
+      });
       
+      console.log(`Snapshot response:`, response.status, response.data?.id);
+      return response.data;
+    } catch (error) {
+      console.error('Error creating destination snapshot:', error);
+      this.handleError(error);
+    }
+  }
+
+  /**
+   * List destination snapshots, newest first
+   */
+  async listSnapshots(): Promise<DestinationSnapshot[]> {
+    try {
+      const response = await this.withRetry(() => apiClient.get(`${SPRING_BOOT_API_URL}/snapshots`, { 
+        timeout: API_TIMEOUT
+      }));
+      
+      return response.data;
+    } catch (error) {
+      console.error('Error listing destination snapshots:', error);
+      this.handleError(error);
+    }
+  }
+
+  /**
+   * Push the books of a snapshot back to the destination it was taken from, as new books
+   */
+  async restoreSnapshot(snapshot: DestinationSnapshot): Promise<SnapshotRestoreItem[]> {
+    try {
+      const headers = await this.getSessionHeaders('snapshot restore', 'destination', snapshot.destinationId);
+      
+      console.log(`Restoring snapshot ${snapshot.id} (${snapshot.books.length} books)`);
+      
+      // Not retried: a retry after a timeout could restore the books twice
+      const response = await apiClient.post(`${SPRING_BOOT_API_URL}/snapshots/${snapshot.id}/restore`, null, { 
+        headers,
+        timeout: API_TIMEOUT
+      });
+      
+      console.log(`Snapshot ${snapshot.id} restore response:`, response.status);
+      return response.data;
+    } catch (error) {
+      console.error(`Error restoring snapshot ${snapshot.id}:`, error);
+      this.handleError(error);
+    }
+  }
+
+  /**
+   * Delete a snapshot archive
+   */
+  async deleteSnapshot(snapshotId: string): Promise<void> {
+    try {
+      const response = await this.withDeleteRetry(() => apiClient.delete(`${SPRING_BOOT_API_URL}/snapshots/${snapshotId}`, { 
+        timeout: API_TIMEOUT
+      }));
+      
+      console.log(`Delete snapshot ${snapshotId} response:`, response.status);
+    } catch (error) {
+      console.error(`Error deleting snapshot ${snapshotId}:`, error);
+      this.handleError(error);
+    }
+  }
+
+  /**
+   * URL of the zip archive of a snapshot, for downloading it in the browser
+   */
+  getSnapshotArchiveUrl(snapshotId: string): string {
+    return `${SPRING_BOOT_API_URL}/snapshots/${snapshotId}/archive`;
+  }
+
+  /**
+   * Append an entry to the audit log. There is no call to change or remove entries.
+   */
+  async recordAuditEntry(entry: NewAuditEntry): Promise<AuditEntry> {
+    try {
+      // Not retried: a retry after a timeout could append the entry twice
+      const response = await apiClient.post(`${SPRING_BOOT_API_URL}/audit`, entry, { 
+        timeout: API_TIMEOUT
+      });
+      
+      return response.data;
+    } catch (error) {
+      console.error(`Error recording ${entry.action} audit entry:`, error);
+      this.handleError(error);
+    }
+  }
+
+  /**
+   * List audit log entries, newest first
+   */
+  async listAuditEntries(filter: AuditFilter = {}): Promise<AuditEntry[]> {
+    try {
+      const response = await this.withRetry(() => apiClient.get(`${SPRING_BOOT_API_URL}/audit`, { 
+        params: filter,
+        timeout: API_TIMEOUT
+      }));
+      
+      return response.data;
+    } catch (error) {
+      console.error('Error listing audit entries:', error);
+      this.handleError(error);
+    }
+  }
+
+  /**
+   * Sync multiple books from source to destination
+   */
+  async syncBooks(sourceBookIds: number[]): Promise<{[key: number]: boolean}> {
+    try {
+      const headers = await this.getSessionHeaders('books sync');
+      
+      console.log(`Syncing ${sourceBookIds.length} books`);
+      
+      // Not retried: a retry after a timeout would sync the books a second time
       const response = await apiClient.post(`${SPRING_BOOT_API_URL}/books`, sourceBookIds, { 
         headers,
         timeout: API_TIMEOUT
@@ -248,37 +1051,10 @@ class SpringBootApi {
    */
   async verifyCredentials(): Promise<{ sourceCredentialsValid: boolean; destinationCredentialsValid?: boolean }> {
     try {
-      const config = await this.getConfig();
-      const headers: ApiHeaders = {};
-      
-      if (!config) {
-        console.error('No configuration found when trying to verify credentials');
-        throw new Error('Configuration is missing');
-      }
-      
-      // Ensure all required source credentials are present
-      if (!config.sourceBaseUrl || !config.sourceTokenSecret || !config.sourceTokenId) {
-        console.error('Source credentials are incomplete', { 
-          hasUrl: !!config.sourceBaseUrl, 
-          hasToken: !!config.sourceTokenSecret, 
-          hasTokenId: !!config.sourceTokenId 
-        });
-        throw new Error('Source credentials are incomplete');
-      }
-      
-      // Add source credentials to headers
-      headers['X-Source-Url'] = config.sourceBaseUrl;
-      headers['X-Source-Token'] = config.sourceTokenSecret;
-      headers['X-Source-Token-Id'] = config.sourceTokenId;
+      // The session also holds the destination credentials if they are complete
+      const headers = await this.getSessionHeaders('credential verification', 'source');
       
-      // Add destination credentials if they exist
-      if (config.destinationBaseUrl && config.destinationTokenId && config.destinationTokenSecret) {
-        headers['X-Destination-Url'] = config.destinationBaseUrl;
-        headers['X-Destination-Token'] = config.destinationTokenSecret;
-        headers['X-Destination-Token-Id'] = config.destinationTokenId;
-      }
-      
-      console.log('Verifying credentials with headers:', Object.keys(headers));
+      console.log('Verifying credentials');
       
       const response = await apiClient.get(`${SPRING_BOOT_API_URL}/verify`, { 
         headers,
@@ -299,26 +1075,9 @@ class SpringBootApi {
    */
   async getRawBooks(): Promise<string> {
     try {
-      const config = await this.getConfig();
-      const headers: ApiHeaders = {};
-      
-      if (!config) {
-        console.error('No configuration found when trying to get raw books data');
-        throw new Error('Configuration is missing');
-      }
-      
-      // Ensure all required source credentials are present
-      if (!config.sourceBaseUrl || !config.sourceTokenSecret || !config.sourceTokenId) {
-        console.error('Source credentials are incomplete for getting raw books data');
-        throw new Error('Source credentials are incomplete');
-      }
+      const headers = await this.getSessionHeaders('getting raw books data', 'source');
       
-      // Add source credentials to headers
-      headers['X-Source-Url'] = config.sourceBaseUrl;
-      headers['X-Source-Token'] = config.sourceTokenSecret;
-      headers['X-Source-Token-Id'] = config.sourceTokenId;
-      
-      console.log('Getting raw books data with headers:', Object.keys(headers));
+      console.log('Getting raw books data');
       
       const response = await apiClient.get(`${DEBUG_API_URL}/books`, { 
         headers,
@@ -362,20 +1121,10 @@ class SpringBootApi {
         config.destinationTokenId
       );
       
-      // Create test headers
-      const headers: ApiHeaders = {};
-      
-      if (hasSourceCredentials) {
-        headers['X-Source-Url'] = config.sourceBaseUrl;
-        headers['X-Source-Token'] = config.sourceTokenSecret;
-        headers['X-Source-Token-Id'] = config.sourceTokenId;
-      }
-      
       // Test basic connectivity to the backend
       try {
-        // Simple ping to the backend with a short timeout
+        // Simple ping to the backend with a short timeout; it needs no credentials
         const pingResponse = await apiClient.get(`${SPRING_BOOT_API_URL}/ping`, { 
-          headers,
           timeout: 5000 // Short timeout for ping
         });
         
@@ -433,34 +1182,17 @@ class SpringBootApi {
   /**
    * List all books from the destination BookStack instance
    */
-  async listDestinationBooks(): Promise<Book[]> {
+  async listDestinationBooks(destinationId: string = PRIMARY_DESTINATION_ID): Promise<Book[]> {
     try {
-      const config = await this.getConfig();
-      const headers: ApiHeaders = {};
+      const headers = await this.getSessionHeaders('listing destination books', 'destination', destinationId);
       
-      if (!config) {
-        console.error('No configuration found when trying to list destination books');
-        throw new Error('Configuration is missing');
-      }
-      
-      // Ensure all required destination credentials are present
-      if (!config.destinationBaseUrl || !config.destinationTokenSecret || !config.destinationTokenId) {
-        console.error('Destination credentials are incomplete for listing books');
-        throw new Error('Destination credentials are incomplete');
-      }
-      
-      // Add destination credentials to headers
-      headers['X-Destination-Url'] = config.destinationBaseUrl;
-      headers['X-Destination-Token'] = config.destinationTokenSecret;
-      headers['X-Destination-Token-Id'] = config.destinationTokenId;
-      
-      console.log('Listing destination books with headers:', Object.keys(headers));
+      console.log(`Listing books of destination ${destinationId}`);
       
       // Use apiClient instead of axios directly to benefit from the timeout setting
-      const response = await apiClient.get(`${SPRING_BOOT_API_URL}/destination/books`, { 
+      const response = await this.withRetry(() => apiClient.get(`${SPRING_BOOT_API_URL}/destination/books`, { 
         headers,
         timeout: API_TIMEOUT
-      });
+      }));
       
       console.log('Destination books list response:', response.status, response.data?.length || 0, 'books');
       return response.data;
@@ -471,35 +1203,19 @@ class SpringBootApi {
   }
 
   /**
-   * Delete a book from the destination BookStack instance
+   * Delete a book from a destination BookStack instance, the primary one by default
    */
-  async deleteDestinationBook(bookId: number): Promise<void> {
+  async deleteDestinationBook(bookId: number, destinationId: string = PRIMARY_DESTINATION_ID, control: RequestControl = {}): Promise<void> {
     try {
-      const config = await this.getConfig();
-      const headers: ApiHeaders = {};
-      
-      if (!config) {
-        console.error(`No configuration found when trying to delete destination book ${bookId}`);
-        throw new Error('Configuration is missing');
-      }
+      const headers = await this.getSessionHeaders(`deleting destination book ${bookId}`, 'destination', destinationId);
       
-      // Ensure all required destination credentials are present
-      if (!config.destinationBaseUrl || !config.destinationTokenSecret || !config.destinationTokenId) {
-        console.error(`Destination credentials are incomplete for deleting book ${bookId}`);
-        throw new Error('Destination credentials are incomplete');
-      }
-      
-      // Add destination credentials to headers
-      headers['X-Destination-Url'] = config.destinationBaseUrl;
-      headers['X-Destination-Token'] = config.destinationTokenSecret;
-      headers['X-Destination-Token-Id'] = config.destinationTokenId;
+      console.log(`Deleting book ${bookId} of destination ${destinationId}`);
       
-      console.log(`Deleting destination book ${bookId} with headers:`, Object.keys(headers));
-      
-      const response = await apiClient.delete(`${SPRING_BOOT_API_URL}/destination/books/${bookId}`, { 
+      const response = await this.withDeleteRetry(() => apiClient.delete(`${SPRING_BOOT_API_URL}/destination/books/${bookId}`, { 
         headers,
-        timeout: API_TIMEOUT
-      });
+        timeout: API_TIMEOUT,
+        signal: control.signal
+      }), control.onRetry);
       
       console.log(`Destination book ${bookId} delete response:`, response.status);
       return response.data;
@@ -512,25 +1228,25 @@ class SpringBootApi {
   /**
    * Delete multiple books from the destination BookStack instance one by one
    * This method doesn't use the bulk delete endpoint, but instead calls deleteDestinationBook
-   * for each book ID sequentially, similar to how syncBook works
+   * for each book ID, running as many at once as the configured concurrency allows
    */
-  async deleteDestinationBooksOneByOne(bookIds: number[]): Promise<{[key: number]: boolean}> {
+  async deleteDestinationBooksOneByOne(bookIds: number[], destinationId: string = PRIMARY_DESTINATION_ID): Promise<{[key: number]: boolean}> {
     try {
-      console.log(`Deleting ${bookIds.length} destination books one by one`);
+      const settings = await this.getWorkerPoolSettings();
+      console.log(`Deleting ${bookIds.length} destination books one by one, ${settings.concurrency} at a time`);
       
       const results: {[key: number]: boolean} = {};
       
-      // Process each book sequentially
-      for (const bookId of bookIds) {
+      await runWithConcurrency(bookIds, settings, async (bookId) => {
         try {
           // Delete the individual book
-          await this.deleteDestinationBook(bookId);
+          await this.deleteDestinationBook(bookId, destinationId);
           results[bookId] = true;
         } catch (error) {
           console.error(`Error deleting destination book ${bookId}:`, error);
           results[bookId] = false;
         }
-      }
+      });
       
       console.log(`Finished deleting books one by one. Results:`, results);
       return results;
@@ -540,10 +1256,217 @@ class SpringBootApi {
     }
   }
 
+  /**
+   * Get the retry policy from the configuration, using defaults for unset values
+   */
+  async getRetryPolicy(): Promise<RetryPolicy> {
+    const config = await this.getConfig();
+    
+    return {
+      ...DEFAULT_RETRY_POLICY,
+      maxRetries: config?.maxRetries ?? DEFAULT_RETRY_POLICY.maxRetries,
+      baseDelayMs: config?.retryBaseDelayMs ?? DEFAULT_RETRY_POLICY.baseDelayMs
+    };
+  }
+
+  /**
+   * Get the parallelism settings from the configuration, using defaults for unset values
+   */
+  async getWorkerPoolSettings(): Promise<WorkerPoolSettings> {
+    const config = await this.getConfig();
+    
+    return {
+      concurrency: clampConcurrency(config?.syncConcurrency ?? DEFAULT_WORKER_POOL_SETTINGS.concurrency),
+      rateLimitPerMinute: config?.rateLimitPerMinute ?? DEFAULT_WORKER_POOL_SETTINGS.rateLimitPerMinute
+    };
+  }
+
+  /**
+   * Run a request, retrying rate limiting, gateway errors and timeouts with backoff
+   */
+  private async withRetry<T>(request: () => Promise<T>, onRetry?: RetryListener): Promise<T> {
+    return withRetry(request, await this.getRetryPolicy(), onRetry);
+  }
+
+  /**
+   * Run a DELETE like withRetry. A retry answered with 404 counts as done, since an earlier attempt
+   * that timed out may have gone through and removed the resource already.
+   */
+  private async withDeleteRetry<T>(request: () => Promise<AxiosResponse<T>>, onRetry?: RetryListener): Promise<AxiosResponse<T>> {
+    let attempts = 0;
+    return this.withRetry(async () => {
+      attempts++;
+      try {
+        return await request();
+      } catch (error) {
+        if (attempts > 1 && axios.isAxiosError<T>(error) && error.response?.status === 404) {
+          return error.response;
+        }
+        throw error;
+      }
+    }, onRetry);
+  }
+
+  // Resolves once the vault, if unlocked, holds the profiles too
+  private async saveProfiles(profiles: SyncProfile[]): Promise<void> {
+    sessionStorage.setItem(PROFILES_SESSION_STORAGE_KEY, JSON.stringify(profiles));
+    
+    if (isVaultUnlocked()) {
+      try {
+        await updateVault(profiles);
+      } catch (error) {
+        console.error('Error saving profiles to the credential vault:', error);
+        throw new Error('The change is kept for this session only: saving it to the credential vault failed');
+      }
+    }
+  }
+
+  private isJobFinished(job: SyncJob): boolean {
+    return job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+  }
+
+  private saveActiveSyncJob(jobId: string, bookId: number): void {
+    const jobs = this.getActiveSyncJobs();
+    jobs[jobId] = bookId;
+    localStorage.setItem(ACTIVE_JOBS_STORAGE_KEY, JSON.stringify(jobs));
+  }
+
+  private removeActiveSyncJob(jobId: string): void {
+    const jobs = this.getActiveSyncJobs();
+    delete jobs[jobId];
+    localStorage.setItem(ACTIVE_JOBS_STORAGE_KEY, JSON.stringify(jobs));
+  }
+
+  /**
+   * Build headers carrying only the id of a backend session that holds the source credentials
+   * and those of one destination, the primary one by default.
+   * The scope names the credentials the operation cannot do without; the others are added when complete.
+   */
+  private async getSessionHeaders(operation: string, scope: CredentialScope = 'both', destinationId: string = PRIMARY_DESTINATION_ID): Promise<ApiHeaders> {
+    const { profileId, credentials } = await this.getProfileCredentials(operation, scope, destinationId);
+    const hasSource = !!credentials.sourceTokenSecret;
+    const hasDestination = !!credentials.destinationTokenSecret;
+    
+    // A session opened without a destination cannot serve a later call that needs one
+    const key = `${profileId}:${destinationId}:${hasSource}:${hasDestination}`;
+    const session = await this.getSyncSession(key, credentials);
+    return { 'X-Sync-Session': session.sessionId };
+  }
+
+  /**
+   * Get the credentials of the active profile for the scope, failing if any of them are incomplete
+   */
+  private async getProfileCredentials(operation: string, scope: CredentialScope, destinationId: string): Promise<{ profileId: string; credentials: SessionCredentials }> {
+    const profile = await this.getActiveProfile();
+    const config = profile.config;
+    
+    if (!config) {
+      console.error(`No configuration found when trying to run ${operation}`);
+      throw new Error('Configuration is missing');
+    }
+    
+    const destination = findDestination(config, destinationId);
+    const hasSource = !!(config.sourceBaseUrl && config.sourceTokenSecret && config.sourceTokenId);
+    const hasDestination = !!(destination?.baseUrl && destination.tokenSecret && destination.tokenId);
+    
+    // Ensure all required credentials are present
+    if (scope === 'source' && !hasSource) {
+      console.error(`Source credentials are incomplete for ${operation}`);
+      throw new Error('Source credentials are incomplete');
+    }
+    if (scope === 'destination' && !hasDestination) {
+      console.error(`Destination credentials are incomplete for ${operation}`);
+      throw new Error('Destination credentials are incomplete');
+    }
+    if (scope === 'both' && (!hasSource || !hasDestination)) {
+      console.error(`Credentials are incomplete for ${operation}`);
+      throw new Error('Source or destination credentials are incomplete');
+    }
+    
+    const credentials: SessionCredentials = {};
+    if (hasSource) {
+      credentials.sourceBaseUrl = config.sourceBaseUrl;
+      credentials.sourceTokenId = config.sourceTokenId;
+      credentials.sourceTokenSecret = config.sourceTokenSecret;
+    }
+    if (destination && hasDestination) {
+      credentials.destinationBaseUrl = destination.baseUrl;
+      credentials.destinationTokenId = destination.tokenId;
+      credentials.destinationTokenSecret = destination.tokenSecret;
+    }
+    
+    return { profileId: profile.id, credentials };
+  }
+
+  /**
+   * Reuse the session for this key until it is about to expire, then open a new one.
+   * Concurrent callers share the same pending request instead of each opening a session.
+   */
+  private async getSyncSession(key: string, credentials: SessionCredentials): Promise<SyncSession> {
+    const cached = syncSessions.get(key);
+    if (cached) {
+      const session = await cached.catch(() => null);
+      if (session && new Date(session.expiresAt).getTime() - Date.now() > SESSION_REFRESH_MARGIN) {
+        return session;
+      }
+      // Another caller may have replaced the session while this one waited
+      const current = syncSessions.get(key);
+      if (current && current !== cached) {
+        return this.getSyncSession(key, credentials);
+      }
+    }
+    
+    const request = this.openSyncSession(credentials);
+    syncSessions.set(key, request);
+    request.catch(() => {
+      if (syncSessions.get(key) === request) {
+        syncSessions.delete(key);
+      }
+    });
+    return request;
+  }
+
+  /**
+   * Post the credentials once and get back the opaque session id later calls carry instead
+   */
+  private async openSyncSession(credentials: SessionCredentials): Promise<SyncSession> {
+    try {
+      console.log('Opening sync session');
+      
+      const response = await this.withRetry(() => apiClient.post(`${SPRING_BOOT_API_URL}/session`, credentials, { 
+        timeout: API_TIMEOUT
+      }));
+      
+      console.log('Sync session opened, expires at', response.data?.expiresAt);
+      return response.data;
+    } catch (error) {
+      console.error('Error opening sync session:', error);
+      this.handleError(error);
+    }
+  }
+
+  /**
+   * Forget every open session and ask the backend to drop them, e.g. after the credentials changed
+   */
+  private closeSyncSessions(): void {
+    for (const request of syncSessions.values()) {
+      request
+        .then(session => apiClient.delete(`${SPRING_BOOT_API_URL}/session/${session.sessionId}`, { timeout: API_TIMEOUT }))
+        .catch(error => {
+          // The session expires on its own anyway
+          console.warn('Error closing sync session:', error);
+        });
+    }
+    syncSessions.clear();
+  }
+
   /**
    * Handle API errors
    */
   private handleError(error: unknown): never {
+    if (axios.isCancel(error)) {
+      throw new Error('Request cancelled');
+    }
     if (axios.isAxiosError(error)) {
       const axiosError = error as AxiosError<ApiErrorResponse>;
       if (axiosError.response) {
@@ -571,28 +1494,11 @@ class SpringBootApi {
     throw error;
   }
 
-  async destroy(): Promise<void> {
+  async destroy(destinationId: string = PRIMARY_DESTINATION_ID): Promise<void> {
     try {
-          const config = await this.getConfig();
-          const headers: ApiHeaders = {};
-
-          if (!config) {
-            console.error(`No configuration found when trying to delete destination book ${bookId}`);
-            throw new Error('Configuration is missing');
-          }
-
-          // Ensure all required destination credentials are present
-          if (!config.destinationBaseUrl || !config.destinationTokenSecret || !config.destinationTokenId) {
-            console.error(`Destination credentials are incomplete for deleting book ${bookId}`);
-            throw new Error('Destination credentials are incomplete');
-          }
-
-          // Add destination credentials to headers
-          headers['X-Destination-Url'] = config.destinationBaseUrl;
-          headers['X-Destination-Token'] = config.destinationTokenSecret;
-          headers['X-Destination-Token-Id'] = config.destinationTokenId;
+          const headers = await this.getSessionHeaders('destroying destination resources', 'destination', destinationId);
 
-          console.log(`Destroying destination resources with headers:`, Object.keys(headers));
+          console.log(`Destroying resources of destination ${destinationId}`);
 
           const response = await apiClient.delete(`${SPRING_BOOT_API_URL}/destroy`, {
             headers,
@@ -601,7 +1507,7 @@ class SpringBootApi {
 
           console.log(`Destroy response:`, response.status);
     } catch (error) {
-        console.error(`Error destroying destination resources ${bookId}:`, error);
+        console.error(`Error destroying destination resources:`, error);
         this.handleError(error);
     }
   }
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { finishSyncBatch, getLastSyncBatch, getUnfinishedBookIds, startSyncBatch, updateSyncBatchItem } from './syncBatchStore';
+
+// Tests run outside the browser, so the store gets an in-memory local storage
+function createStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() { return items.size; },
+    clear: () => items.clear(),
+    getItem: key => items.get(key) ?? null,
+    key: index => [...items.keys()][index] ?? null,
+    removeItem: key => { items.delete(key); },
+    setItem: (key, value) => { items.set(key, String(value)); }
+  };
+}
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', createStorage());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('syncBatchStore', () => {
+  it('starts a batch with every book pending and its options', () => {
+    startSyncBatch([
+      { id: 1, name: 'Guide', options: { primary: { destinationBookId: 10 } } },
+      { id: 2, name: 'Handbook', options: {} }
+    ], 'full');
+
+    const batch = getLastSyncBatch();
+    expect(batch?.mode).toBe('full');
+    expect(batch?.finishedAt).toBeUndefined();
+    expect(batch?.items).toEqual({
+      1: { name: 'Guide', status: 'Pending', options: { primary: { destinationBookId: 10 } } },
+      2: { name: 'Handbook', status: 'Pending', options: {} }
+    });
+  });
+
+  it('updates the status of books in the batch and ignores others', () => {
+    startSyncBatch([{ id: 1, name: 'Guide', options: {} }], 'full');
+
+    updateSyncBatchItem(1, 'Completed');
+    updateSyncBatchItem(2, 'Failed');
+
+    expect(getLastSyncBatch()?.items).toEqual({ 1: { name: 'Guide', status: 'Completed', options: {} } });
+  });
+
+  it('resumes every book that did not complete, including interrupted ones', () => {
+    startSyncBatch([1, 2, 3, 4].map(id => ({ id, name: `Book ${id}`, options: {} })), 'delta');
+    updateSyncBatchItem(1, 'Completed');
+    updateSyncBatchItem(2, 'Syncing');
+    updateSyncBatchItem(3, 'Failed');
+    finishSyncBatch();
+
+    const batch = getLastSyncBatch();
+    expect(batch?.finishedAt).toBeDefined();
+    expect(getUnfinishedBookIds(batch!)).toEqual([2, 3, 4]);
+  });
+
+  it('returns no batch when none was recorded', () => {
+    expect(getLastSyncBatch()).toBeNull();
+  });
+});
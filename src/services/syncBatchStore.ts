@@ -0,0 +1,86 @@
+import { SyncBookOptions, SyncMode } from './springBootApi';
+
+// Local storage key for the most recent sync batch, kept so an interrupted batch can be resumed
+const SYNC_BATCH_STORAGE_KEY = 'bookstack_sync_last_batch';
+
+export type SyncBatchItemStatus = 'Pending' | 'Syncing' | 'Completed' | 'Failed';
+
+// Sync options of one book by destination id, as the batch started with them
+export type SyncBatchOptions = {[key: string]: SyncBookOptions};
+
+// Outcome of one "Sync Selected" run, updated as each book finishes
+export interface SyncBatch {
+  startedAt: string;
+  finishedAt?: string;
+  mode: SyncMode;
+  // options are missing from batches recorded before they were kept
+  items: {[key: number]: { name: string; status: SyncBatchItemStatus; options?: SyncBatchOptions }};
+}
+
+/**
+ * Get the most recent sync batch, or null if none was recorded
+ */
+export function getLastSyncBatch(): SyncBatch | null {
+  try {
+    const batchJson = localStorage.getItem(SYNC_BATCH_STORAGE_KEY);
+    return batchJson ? JSON.parse(batchJson) : null;
+  } catch (error) {
+    console.error('Error getting last sync batch from local storage:', error);
+    return null;
+  }
+}
+
+function saveSyncBatch(batch: SyncBatch): void {
+  localStorage.setItem(SYNC_BATCH_STORAGE_KEY, JSON.stringify(batch));
+}
+
+/**
+ * Record the start of a new batch with every book pending, replacing the previous batch
+ */
+export function startSyncBatch(books: Array<{ id: number; name: string; options: SyncBatchOptions }>, mode: SyncMode): void {
+  const items: SyncBatch['items'] = {};
+  for (const book of books) {
+    items[book.id] = { name: book.name, status: 'Pending', options: book.options };
+  }
+
+  saveSyncBatch({ startedAt: new Date().toISOString(), mode, items });
+}
+
+/**
+ * Record the status of one book in the current batch
+ */
+export function updateSyncBatchItem(bookId: number, status: SyncBatchItemStatus): void {
+  const batch = getLastSyncBatch();
+  if (!batch?.items[bookId]) return;
+
+  batch.items[bookId].status = status;
+  saveSyncBatch(batch);
+}
+
+/**
+ * Mark the current batch as having run to the end
+ */
+export function finishSyncBatch(): void {
+  const batch = getLastSyncBatch();
+  if (!batch) return;
+
+  batch.finishedAt = new Date().toISOString();
+  saveSyncBatch(batch);
+}
+
+/**
+ * Get the books of a batch that still need syncing.
+ * Books left as 'Syncing' were interrupted mid-request and are retried along with pending and failed ones.
+ */
+export function getUnfinishedBookIds(batch: SyncBatch): number[] {
+  return Object.keys(batch.items)
+    .map(Number)
+    .filter(bookId => batch.items[bookId].status !== 'Completed');
+}
+
+/**
+ * Forget the last batch, e.g. when the user dismisses the resume prompt
+ */
+export function clearSyncBatch(): void {
+  localStorage.removeItem(SYNC_BATCH_STORAGE_KEY);
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { Book } from './bookstackApi';
+import { buildDestinationIndex, findDestinationBook, getSyncSourceId, isDestinationCopyStale } from './syncMapping';
+
+function createBook(id: number, name: string, updatedAt: string, tags: Record<string, string> = {}): Book {
+  return {
+    id,
+    name,
+    updated_at: updatedAt,
+    tags: Object.entries(tags).map(([tagName, value], order) => ({ name: tagName, value, order }))
+  } as Book;
+}
+
+describe('getSyncSourceId', () => {
+  it('reads the source book id from the sync tag', () => {
+    expect(getSyncSourceId(createBook(10, 'Copy', '', { sync_source_id: '5' }))).toBe(5);
+    expect(getSyncSourceId(createBook(10, 'Copy', ''))).toBeNull();
+  });
+
+  it('ignores blank, non-positive and malformed ids', () => {
+    for (const value of ['', '  ', '0', '-3', '1.5', 'abc']) {
+      expect(getSyncSourceId(createBook(10, 'Copy', '', { sync_source_id: value }))).toBeNull();
+    }
+  });
+});
+
+describe('findDestinationBook', () => {
+  it('prefers the copy tagged with the source id over one with the same name', () => {
+    const source = createBook(5, 'Guide', '');
+    const tagged = createBook(20, 'Guide (renamed)', '', { sync_source_id: '5' });
+    const sameName = createBook(21, 'Guide', '');
+
+    expect(findDestinationBook(buildDestinationIndex([sameName, tagged]), source)).toBe(tagged);
+  });
+
+  it('matches untagged copies by name', () => {
+    const source = createBook(5, 'Guide', '');
+    const copy = createBook(20, 'Guide', '');
+
+    expect(findDestinationBook(buildDestinationIndex([copy]), source)).toBe(copy);
+  });
+
+  it('matches a copy with a blank sync tag by name', () => {
+    const source = createBook(5, 'Guide', '');
+    const copy = createBook(20, 'Guide', '', { sync_source_id: '' });
+
+    expect(findDestinationBook(buildDestinationIndex([copy]), source)).toBe(copy);
+  });
+
+  it('does not pair a copy tagged for another source book by name', () => {
+    const source = createBook(5, 'Guide', '');
+    const otherCopy = createBook(20, 'Guide', '', { sync_source_id: '6' });
+
+    expect(findDestinationBook(buildDestinationIndex([otherCopy]), source)).toBeUndefined();
+  });
+});
+
+describe('isDestinationCopyStale', () => {
+  it('compares the source edits with the sync time tag', () => {
+    const source = createBook(5, 'Guide', '2024-01-02T00:00:00Z');
+    const syncedBefore = createBook(20, 'Guide', '2024-01-03T00:00:00Z', { sync_synced_at: '2024-01-01T00:00:00Z' });
+    const syncedAfter = createBook(20, 'Guide', '2024-01-01T00:00:00Z', { sync_synced_at: '2024-01-03T00:00:00Z' });
+
+    expect(isDestinationCopyStale(source, syncedBefore)).toBe(true);
+    expect(isDestinationCopyStale(source, syncedAfter)).toBe(false);
+  });
+
+  it('falls back to the copy\'s updated_at without a sync time tag', () => {
+    const source = createBook(5, 'Guide', '2024-01-02T00:00:00Z');
+
+    expect(isDestinationCopyStale(source, createBook(20, 'Guide', '2024-01-01T00:00:00Z'))).toBe(true);
+    expect(isDestinationCopyStale(source, createBook(20, 'Guide', '2024-01-03T00:00:00Z'))).toBe(false);
+  });
+
+  it('counts chapter and page edits of books loaded with their contents', () => {
+    const copy = createBook(20, 'Guide', '', { sync_synced_at: '2024-01-02T00:00:00Z' });
+    const source = {
+      ...createBook(5, 'Guide', '2024-01-01T00:00:00Z'),
+      contents: [{ updated_at: '2024-01-01T00:00:00Z', pages: [{ updated_at: '2024-01-03T00:00:00Z' }] }]
+    } as Book;
+
+    expect(isDestinationCopyStale(source, copy)).toBe(true);
+    expect(isDestinationCopyStale({ ...source, contents: [] }, copy)).toBe(false);
+  });
+});
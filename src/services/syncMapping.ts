@@ -0,0 +1,91 @@
+import { Book } from './bookstackApi';
+
+// Tag written on destination books to record the id of the source book they were synced from
+export const SYNC_SOURCE_TAG = 'sync_source_id';
+
+// Tag written on destination books with the ISO time of their last successful sync
+export const SYNC_TIME_TAG = 'sync_synced_at';
+
+// Lookup tables pairing source books with their destination copies
+export interface DestinationIndex {
+  bySourceId: Map<number, Book>;
+  // Only destination books without a sync tag, kept for copies synced before the tag existed
+  byName: Map<string, Book>;
+}
+
+/**
+ * Get the source book id recorded on a destination book, or null if it has no sync tag
+ */
+export function getSyncSourceId(destinationBook: Book): number | null {
+  const tag = (destinationBook.tags || []).find(tag => tag.name === SYNC_SOURCE_TAG);
+  // Number('') is 0, so a blank value has to be caught before converting
+  if (!tag || !(tag.value || '').trim()) return null;
+
+  const sourceId = Number(tag.value);
+  return Number.isInteger(sourceId) && sourceId > 0 ? sourceId : null;
+}
+
+/**
+ * Index destination books by the source book id in their sync tag
+ */
+export function buildDestinationIndex(destinationBooks: Book[]): DestinationIndex {
+  const index: DestinationIndex = {
+    bySourceId: new Map(),
+    byName: new Map()
+  };
+
+  for (const destinationBook of destinationBooks) {
+    const sourceId = getSyncSourceId(destinationBook);
+    if (sourceId !== null) {
+      index.bySourceId.set(sourceId, destinationBook);
+    } else if (!index.byName.has(destinationBook.name)) {
+      index.byName.set(destinationBook.name, destinationBook);
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Find the destination copy of a source book.
+ * The sync tag wins; untagged copies are matched by name so existing destinations keep working.
+ */
+export function findDestinationBook(index: DestinationIndex, sourceBook: Book): Book | undefined {
+  return index.bySourceId.get(sourceBook.id) ?? index.byName.get(sourceBook.name);
+}
+
+/**
+ * Get the time a destination copy was last synced.
+ * Falls back to its updated_at, which a sync always bumps, when the sync time tag is missing.
+ */
+export function getLastSyncedAt(destinationBook: Book): number {
+  const tag = (destinationBook.tags || []).find(tag => tag.name === SYNC_TIME_TAG);
+  const syncedAt = tag ? new Date(tag.value).getTime() : NaN;
+
+  return Number.isNaN(syncedAt) ? new Date(destinationBook.updated_at).getTime() : syncedAt;
+}
+
+/**
+ * Get the most recent updated_at of a source book and any chapter or page in its contents
+ */
+export function getLatestSourceUpdate(sourceBook: Book): number {
+  const timestamps = [sourceBook.updated_at];
+
+  for (const item of sourceBook.contents || []) {
+    timestamps.push(item.updated_at || '');
+    for (const page of item.pages || []) {
+      timestamps.push(page.updated_at || '');
+    }
+  }
+
+  return Math.max(...timestamps.map(value => new Date(value).getTime()).filter(time => !Number.isNaN(time)));
+}
+
+/**
+ * Check whether the source book changed after its destination copy was last synced.
+ * Chapter and page edits only count for books loaded with their contents; for list entries
+ * only edits of the book itself do.
+ */
+export function isDestinationCopyStale(sourceBook: Book, destinationBook: Book): boolean {
+  return getLatestSourceUpdate(sourceBook) > getLastSyncedAt(destinationBook);
+}
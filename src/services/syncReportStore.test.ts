@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SyncReport } from './springBootApi';
+import { getSyncReports, saveSyncReport } from './syncReportStore';
+
+// Tests run outside the browser, so the stores get an in-memory local storage
+function createStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() { return items.size; },
+    clear: () => items.clear(),
+    getItem: key => items.get(key) ?? null,
+    key: index => [...items.keys()][index] ?? null,
+    removeItem: key => { items.delete(key); },
+    setItem: (key, value) => { items.set(key, String(value)); }
+  };
+}
+
+function createReport(bookId: number, startedAt = '2024-01-01T00:00:00Z'): SyncReport {
+  const noCounts = { created: 0, updated: 0, deleted: 0, skipped: 0 };
+  return {
+    bookId,
+    mode: 'full',
+    status: 'completed',
+    startedAt,
+    finishedAt: startedAt,
+    durationMs: 0,
+    chapters: noCounts,
+    pages: noCounts,
+    warnings: []
+  };
+}
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', createStorage());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('syncReportStore', () => {
+  it('keeps the reports of each source instance apart', () => {
+    saveSyncReport('https://docs.example.com', createReport(1));
+
+    expect(getSyncReports('https://docs.example.com', 1)).toHaveLength(1);
+    expect(getSyncReports('https://wiki.example.com', 1)).toEqual([]);
+  });
+
+  it('treats URLs differing only in a trailing slash or case as the same source', () => {
+    saveSyncReport('https://Docs.example.com/', createReport(1));
+
+    expect(getSyncReports('https://docs.example.com', 1)).toHaveLength(1);
+  });
+
+  it('keeps the newest 20 reports of a book, newest first', () => {
+    for (let day = 1; day <= 25; day++) {
+      saveSyncReport('https://docs.example.com', createReport(1, `2024-01-${String(day).padStart(2, '0')}T00:00:00Z`));
+    }
+
+    const reports = getSyncReports('https://docs.example.com', 1);
+    expect(reports).toHaveLength(20);
+    expect(reports[0].startedAt).toBe('2024-01-25T00:00:00Z');
+    expect(reports[19].startedAt).toBe('2024-01-06T00:00:00Z');
+  });
+
+  it('drops the sources synced from least recently beyond 10', () => {
+    for (let source = 0; source < 10; source++) {
+      saveSyncReport(`https://source${source}.example.com`, createReport(1));
+    }
+    // Writing to the oldest source again moves it to the end, so the next new source pushes out the second oldest
+    saveSyncReport('https://source0.example.com', createReport(1));
+    saveSyncReport('https://source10.example.com', createReport(1));
+
+    expect(getSyncReports('https://source0.example.com', 1)).toHaveLength(2);
+    expect(getSyncReports('https://source1.example.com', 1)).toEqual([]);
+    expect(getSyncReports('https://source2.example.com', 1)).toHaveLength(1);
+    expect(getSyncReports('https://source10.example.com', 1)).toHaveLength(1);
+  });
+
+  it('removes the reports kept by profile id', () => {
+    localStorage.setItem('bookstack_sync_reports', '{}');
+
+    saveSyncReport('https://docs.example.com', createReport(1));
+
+    expect(localStorage.getItem('bookstack_sync_reports')).toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+import { SyncJob, SyncReport } from './springBootApi';
+
+// Local storage key for past sync reports, by source instance and book
+const SYNC_REPORTS_STORAGE_KEY = 'bookstack_sync_reports_by_source';
+
+// Earlier versions kept the reports by profile id, which changes with every browser session
+const LEGACY_SYNC_REPORTS_STORAGE_KEY = 'bookstack_sync_reports';
+
+// Older reports of a book are dropped beyond this many
+const MAX_REPORTS_PER_BOOK = 20;
+
+// The reports of the sources synced from least recently are dropped beyond this many
+const MAX_SOURCES = 10;
+
+// Book ids are only unique within one source instance; sources are kept in the order they were last written
+type StoredReports = {[sourceUrl: string]: {[bookId: number]: SyncReport[]}};
+
+// The same instance may be configured with or without a trailing slash
+function toSourceKey(sourceBaseUrl: string): string {
+  return sourceBaseUrl.trim().replace(/\/+$/, '').toLowerCase();
+}
+
+function getStoredReports(): StoredReports {
+  try {
+    const reportsJson = localStorage.getItem(SYNC_REPORTS_STORAGE_KEY);
+    return reportsJson ? JSON.parse(reportsJson) : {};
+  } catch (error) {
+    console.error('Error getting sync reports from local storage:', error);
+    return {};
+  }
+}
+
+/**
+ * Get the past sync reports of a book, newest first
+ */
+export function getSyncReports(sourceBaseUrl: string, bookId: number): SyncReport[] {
+  return getStoredReports()[toSourceKey(sourceBaseUrl)]?.[bookId] || [];
+}
+
+/**
+ * Keep the report of a finished sync
+ */
+export function saveSyncReport(sourceBaseUrl: string, report: SyncReport): void {
+  const stored = getStoredReports();
+  const sourceKey = toSourceKey(sourceBaseUrl);
+  const sourceReports = stored[sourceKey] || {};
+  sourceReports[report.bookId] = [report, ...(sourceReports[report.bookId] || [])].slice(0, MAX_REPORTS_PER_BOOK);
+
+  // Move the source to the end, then drop the ones at the front
+  delete stored[sourceKey];
+  stored[sourceKey] = sourceReports;
+  const pruned: StoredReports = Object.fromEntries(Object.entries(stored).slice(-MAX_SOURCES));
+
+  try {
+    localStorage.removeItem(LEGACY_SYNC_REPORTS_STORAGE_KEY);
+    localStorage.setItem(SYNC_REPORTS_STORAGE_KEY, JSON.stringify(pruned));
+  } catch (error) {
+    // Full storage only costs the history, not the sync
+    console.error('Error saving sync report to local storage:', error);
+  }
+}
+
+/**
+ * The job's own report, or one built from the job when it ended before the server wrote one
+ */
+export function getJobReport(job: SyncJob): SyncReport {
+  if (job.report) return job.report;
+
+  const finishedAt = new Date().toISOString();
+  const noCounts = { created: 0, updated: 0, deleted: 0, skipped: 0 };
+  const noAssets = { copied: 0, skipped: 0, failed: 0 };
+  return {
+    bookId: job.bookId,
+    destinationId: job.destinationId,
+    mode: job.mode,
+    status: job.status === 'completed' ? 'completed' : job.status === 'cancelled' ? 'cancelled' : 'failed',
+    startedAt: job.createdAt,
+    finishedAt,
+    durationMs: Date.parse(finishedAt) - Date.parse(job.createdAt),
+    chapters: noCounts,
+    pages: noCounts,
+    attachments: noAssets,
+    images: noAssets,
+    links: { rewritten: 0, unresolved: [] },
+    warnings: [],
+    error: job.error
+  };
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { Book } from './bookstackApi';
+import { countTagFacets, hasTag, isSyncAllowed, normalizeTagRules } from './tagRules';
+
+function createBook(id: number, tags: Array<[string, string]>): Book {
+  return {
+    id,
+    name: `Book ${id}`,
+    tags: tags.map(([name, value], order) => ({ name, value, order }))
+  } as Book;
+}
+
+describe('hasTag', () => {
+  it('matches names and values case-insensitively', () => {
+    const book = createBook(1, [['Team', 'Docs'], ['Public', '']]);
+
+    expect(hasTag(book, 'team')).toBe(true);
+    expect(hasTag(book, 'TEAM=docs')).toBe(true);
+    expect(hasTag(book, ' team = docs ')).toBe(true);
+    expect(hasTag(book, 'team=ops')).toBe(false);
+    expect(hasTag(book, 'public=')).toBe(true);
+    expect(hasTag(book, 'internal')).toBe(false);
+  });
+});
+
+describe('isSyncAllowed', () => {
+  it('requires every include rule, and allows every book without rules', () => {
+    const book = createBook(1, [['team', 'docs'], ['public', '']]);
+
+    expect(isSyncAllowed(book, { include: [], strip: [] })).toBe(true);
+    expect(isSyncAllowed(book, { include: ['team=docs', 'public'], strip: [] })).toBe(true);
+    expect(isSyncAllowed(book, { include: ['team=docs', 'internal'], strip: [] })).toBe(false);
+  });
+});
+
+describe('normalizeTagRules', () => {
+  it('trims the rules and drops blank lines', () => {
+    expect(normalizeTagRules({ include: [' team=docs ', '', '  '] })).toEqual({ include: ['team=docs'], strip: [] });
+    expect(normalizeTagRules()).toEqual({ include: [], strip: [] });
+  });
+});
+
+describe('countTagFacets', () => {
+  it('groups tags case-insensitively, like the filter they apply', () => {
+    const facets = countTagFacets([
+      createBook(1, [['Team', 'Docs']]),
+      createBook(2, [['team', 'docs']]),
+      createBook(3, [['team', 'ops']])
+    ]);
+
+    expect(facets).toEqual([
+      { name: 'Team', value: 'Docs', count: 2 },
+      { name: 'team', value: 'ops', count: 1 }
+    ]);
+  });
+
+  it('counts a book carrying the same tag twice once', () => {
+    const facets = countTagFacets([createBook(1, [['team', 'docs'], ['TEAM', 'DOCS']])]);
+
+    expect(facets).toEqual([{ name: 'team', value: 'docs', count: 1 }]);
+  });
+
+  it('leaves out the tags written by the sync', () => {
+    const facets = countTagFacets([
+      createBook(1, [['sync_source_id', '5'], ['sync_synced_at', '2024-01-01T00:00:00Z'], ['public', '']])
+    ]);
+
+    expect(facets).toEqual([{ name: 'public', value: '', count: 1 }]);
+  });
+});
@@ -0,0 +1,84 @@
+import { Book } from './bookstackApi';
+import { SYNC_SOURCE_TAG, SYNC_TIME_TAG } from './syncMapping';
+
+// Tag rules of a profile, sent with every book sync
+export interface TagRules {
+  // "name" or "name=value"; only books carrying every one of these tags are synced, every book when empty
+  include: string[];
+  // Tag name patterns such as "internal_*", left off the destination copies of books, chapters and pages
+  strip: string[];
+}
+
+// A tag name and value with the number of books carrying it; value is empty for tags without one
+export interface TagFacet {
+  name: string;
+  value: string;
+  count: number;
+}
+
+// Written by the sync itself and unique per book, so they would only clutter the facets
+const SYNC_TAGS = [SYNC_SOURCE_TAG, SYNC_TIME_TAG];
+
+/**
+ * Format a tag as the "name" or "name=value" expression used by filters and include rules
+ */
+export function formatTagExpression(name: string, value: string): string {
+  return value ? `${name}=${value}` : name;
+}
+
+/**
+ * Check whether a book carries the tag of a "name" or "name=value" expression.
+ * Names and values are compared case-insensitively, like BookStack's tag search.
+ */
+export function hasTag(book: Book, expression: string): boolean {
+  const separator = expression.indexOf('=');
+  const name = (separator === -1 ? expression : expression.slice(0, separator)).trim().toLowerCase();
+  const value = separator === -1 ? null : expression.slice(separator + 1).trim().toLowerCase();
+
+  return (book.tags || []).some(tag =>
+    tag.name.toLowerCase() === name && (value === null || (tag.value || '').toLowerCase() === value)
+  );
+}
+
+/**
+ * Check whether the include rules let a book be synced
+ */
+export function isSyncAllowed(book: Book, rules: TagRules): boolean {
+  return rules.include.every(expression => hasTag(book, expression));
+}
+
+/**
+ * Trim the rules and drop blank lines left over from editing
+ */
+export function normalizeTagRules(rules?: Partial<TagRules>): TagRules {
+  const clean = (lines: string[] = []) => lines.map(line => line.trim()).filter(line => line !== '');
+  return { include: clean(rules?.include), strip: clean(rules?.strip) };
+}
+
+/**
+ * Count the books carrying each tag name and value, most used first
+ */
+export function countTagFacets(books: Book[]): TagFacet[] {
+  const facets = new Map<string, TagFacet>();
+
+  for (const book of books) {
+    // A book with the same tag twice still counts once
+    const seen = new Set<string>();
+    for (const tag of book.tags || []) {
+      if (SYNC_TAGS.includes(tag.name)) continue;
+
+      // Grouped case-insensitively like hasTag, so a facet's count matches the books its filter shows
+      const key = formatTagExpression(tag.name, tag.value || '').toLowerCase();
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const facet = facets.get(key) || { name: tag.name, value: tag.value || '', count: 0 };
+      facet.count++;
+      facets.set(key, facet);
+    }
+  }
+
+  return [...facets.values()].sort((a, b) =>
+    b.count - a.count || a.name.localeCompare(b.name) || a.value.localeCompare(b.value)
+  );
+}
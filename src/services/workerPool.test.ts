@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BatchController, clampConcurrency, RateLimiter, runWithConcurrency } from './workerPool';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// A worker that records how many items run at once and finishes when the test releases it
+function createTrackedWorker() {
+  const started: number[] = [];
+  const pending: Array<() => void> = [];
+  let running = 0;
+  let maxRunning = 0;
+
+  const worker = async (item: number) => {
+    started.push(item);
+    running++;
+    maxRunning = Math.max(maxRunning, running);
+    await new Promise<void>(resolve => pending.push(resolve));
+    running--;
+  };
+
+  // Keep finishing the running items until the pool settles or stops starting new ones
+  const releaseAll = async () => {
+    do {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      pending.splice(0).forEach(resolve => resolve());
+    } while (running > 0);
+  };
+
+  return { worker, started, releaseAll, getMaxRunning: () => maxRunning };
+}
+
+describe('clampConcurrency', () => {
+  it('keeps the concurrency within the supported range', () => {
+    expect(clampConcurrency(0)).toBe(1);
+    expect(clampConcurrency(-3)).toBe(1);
+    expect(clampConcurrency(NaN)).toBe(1);
+    expect(clampConcurrency(2.7)).toBe(2);
+    expect(clampConcurrency(50)).toBe(8);
+  });
+});
+
+describe('runWithConcurrency', () => {
+  it('never runs more items at once than the concurrency', async () => {
+    const { worker, started, releaseAll, getMaxRunning } = createTrackedWorker();
+
+    const done = runWithConcurrency([1, 2, 3, 4, 5, 6, 7], { concurrency: 3, rateLimitPerMinute: 0 }, worker);
+    await releaseAll();
+    await done;
+
+    expect(getMaxRunning()).toBe(3);
+    expect(started).toEqual([1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  it('starts no new items while paused or after cancellation', async () => {
+    const { worker, started, releaseAll } = createTrackedWorker();
+    const controller = new BatchController();
+
+    const done = runWithConcurrency([1, 2, 3, 4], { concurrency: 1, rateLimitPerMinute: 0 }, worker, controller);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    controller.pause();
+    await releaseAll();
+    expect(started).toEqual([1]);
+
+    controller.cancel();
+    await done;
+    expect(started).toEqual([1]);
+  });
+});
+
+describe('RateLimiter', () => {
+  it('spaces out starts to stay under the limit', async () => {
+    vi.useFakeTimers({ now: 0 });
+    const limiter = new RateLimiter();
+    limiter.setLimit(2);
+    const startTimes: number[] = [];
+
+    const starts = [1, 2, 3].map(() => limiter.acquire().then(() => startTimes.push(Date.now())));
+    await vi.runAllTimersAsync();
+    await Promise.all(starts);
+
+    expect(startTimes).toEqual([0, 30000, 60000]);
+  });
+
+  it('does not wait without a limit', async () => {
+    vi.useFakeTimers({ now: 0 });
+    const limiter = new RateLimiter();
+    limiter.setLimit(0);
+
+    await Promise.all([limiter.acquire(), limiter.acquire(), limiter.acquire()]);
+    expect(Date.now()).toBe(0);
+  });
+});
@@ -0,0 +1,124 @@
+// Bounds for the number of books processed at the same time
+export const MIN_CONCURRENCY = 1;
+export const MAX_CONCURRENCY = 8;
+
+// Settings for running book operations in parallel
+export interface WorkerPoolSettings {
+  concurrency: number;
+  // Maximum book operations started per minute across all pools, 0 for no limit
+  rateLimitPerMinute: number;
+}
+
+// No rate limit unless the user sets one, so the default of one book at a time runs as fast as before
+export const DEFAULT_WORKER_POOL_SETTINGS: WorkerPoolSettings = {
+  concurrency: 1,
+  rateLimitPerMinute: 0
+};
+
+/**
+ * Spaces out the start of operations so no more than the limit start per minute
+ */
+export class RateLimiter {
+  private perMinute = 0;
+  private nextStart = 0;
+
+  setLimit(perMinute: number): void {
+    this.perMinute = perMinute;
+  }
+
+  /**
+   * Wait until the next operation is allowed to start
+   */
+  async acquire(): Promise<void> {
+    if (this.perMinute <= 0) return;
+
+    const now = Date.now();
+    const start = Math.max(now, this.nextStart);
+    this.nextStart = start + 60000 / this.perMinute;
+
+    if (start > now) {
+      await new Promise(resolve => setTimeout(resolve, start - now));
+    }
+  }
+}
+
+// Shared by every pool so parallel syncs and deletes together stay under the limit
+export const sharedRateLimiter = new RateLimiter();
+
+/**
+ * Lets the user pause, resume or cancel a running batch.
+ * Pausing only holds back books that have not started; cancelling also aborts in-flight requests through the signal.
+ */
+export class BatchController {
+  private readonly abortController = new AbortController();
+  private paused = false;
+  private resumeWaiters: Array<() => void> = [];
+
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  get isCancelled(): boolean {
+    return this.abortController.signal.aborted;
+  }
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.resumeWaiters.forEach(resolve => resolve());
+    this.resumeWaiters = [];
+  }
+
+  cancel(): void {
+    this.abortController.abort();
+    // Release paused workers so they can see the cancellation and stop
+    this.resume();
+  }
+
+  /**
+   * Wait until the batch is resumed, or return straight away if it is not paused
+   */
+  async waitWhilePaused(): Promise<void> {
+    if (!this.paused) return;
+    await new Promise<void>(resolve => this.resumeWaiters.push(resolve));
+  }
+}
+
+/**
+ * Clamp a configured concurrency to the supported range
+ */
+export function clampConcurrency(concurrency: number): number {
+  return Math.min(MAX_CONCURRENCY, Math.max(MIN_CONCURRENCY, Math.floor(concurrency) || MIN_CONCURRENCY));
+}
+
+/**
+ * Run the worker for every item with at most `concurrency` running at once, in item order.
+ * The worker is expected to handle its own errors; a rejection stops the pool.
+ * With a controller, no new item starts while paused, and none after cancellation.
+ */
+export async function runWithConcurrency<T>(items: T[], settings: WorkerPoolSettings, worker: (item: T) => Promise<void>, controller?: BatchController): Promise<void> {
+  let nextIndex = 0;
+  sharedRateLimiter.setLimit(settings.rateLimitPerMinute);
+
+  const runWorker = async () => {
+    while (nextIndex < items.length) {
+      await controller?.waitWhilePaused();
+      if (controller?.isCancelled || nextIndex >= items.length) return;
+
+      const item = items[nextIndex++];
+      await sharedRateLimiter.acquire();
+      if (controller?.isCancelled) return;
+      await worker(item);
+    }
+  };
+
+  const workerCount = Math.min(clampConcurrency(settings.concurrency), items.length);
+  await Promise.all(Array.from({ length: workerCount }, runWorker));
+}
@@ -12,6 +12,12 @@ export default defineConfig({
         secure: false,
         rewrite: (path) => path
       },
+      '/api/auth': {
+        target: 'http://localhost:8080',
+        changeOrigin: true,
+        secure: false,
+        rewrite: (path) => path
+      },
       '/api/debug': {
         target: 'http://localhost:8080',
         changeOrigin: true,